@@ -29,6 +29,20 @@ export default [
       include: "src/**",
     },
   },
+  // Command line tool
+  {
+    input: "src/bin/read-next.ts",
+    output: {
+      file: "dist/bin/read-next.cjs",
+      format: "cjs",
+      banner: "#!/usr/bin/env node",
+      sourcemap: true,
+    },
+    plugins: [peerDepsExternal(), typescript({ useTsconfigDeclarationDir: true }), commonjs()],
+    watch: {
+      include: "src/**",
+    },
+  },
   // {
   //   input: "./src/index.ts",
   //   output: [
@@ -0,0 +1,302 @@
+import { randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * A `CacheStore` holds everything ReadNext caches - summaries, content hashes and so on - as string
+ * values under `/`-separated keys such as `summaries/my-article`. ReadNext ships with filesystem,
+ * in-memory and SQLite implementations, and any other storage can be used by implementing this
+ * interface.
+ *
+ * The interface is synchronous, matching the filesystem and SQLite drivers it was designed around.
+ */
+export interface CacheStore {
+  /**
+   * Returns the value stored under a key, or `undefined` if there isn't one.
+   */
+  get(key: string): string | undefined;
+
+  /**
+   * Stores a value under a key, replacing any existing value.
+   */
+  set(key: string, value: string): void;
+
+  /**
+   * Removes the value stored under a key.
+   *
+   * @returns `true` if there was a value to remove, `false` otherwise.
+   */
+  delete(key: string): boolean;
+
+  /**
+   * Returns every key that starts with the given prefix, or every key if no prefix is given.
+   */
+  list(prefix?: string): string[];
+}
+
+/**
+ * Stores each key as a file inside a directory. This is ReadNext's default store, and keeps the
+ * on-disk layout of the cacheDir the same as it has always been (e.g. `summaries/my-article`).
+ *
+ * Values are written to a hidden temporary file that is then renamed over the old one, so other
+ * processes reading the cacheDir never see a half-written file. Hidden files (such as these and
+ * ReadNext's lock file) are not listed.
+ */
+export class FileSystemCacheStore implements CacheStore {
+  /**
+   * The directory the files are stored in.
+   */
+  dir: string;
+
+  /**
+   * Constructs a new `FileSystemCacheStore`. The directory is only created when something is written.
+   *
+   * @param dir - The directory to store the files in.
+   */
+  constructor({ dir }: { dir: string }) {
+    this.dir = dir;
+  }
+
+  /**
+   * Returns the path of the file for a key, making sure it can't escape the store's directory.
+   */
+  pathFor(key: string): string {
+    const fileName = path.resolve(this.dir, key);
+
+    if (!fileName.startsWith(path.resolve(this.dir) + path.sep)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+
+    return fileName;
+  }
+
+  get(key: string): string | undefined {
+    const fileName = this.pathFor(key);
+
+    if (fs.existsSync(fileName)) {
+      return fs.readFileSync(fileName, "utf8");
+    }
+  }
+
+  set(key: string, value: string): void {
+    const fileName = this.pathFor(key);
+
+    const tempFileName = path.join(
+      path.dirname(fileName),
+      `.${path.basename(fileName)}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`
+    );
+
+    fs.mkdirSync(path.dirname(fileName), { recursive: true });
+
+    try {
+      fs.writeFileSync(tempFileName, value);
+      fs.renameSync(tempFileName, fileName);
+    } catch (e) {
+      fs.rmSync(tempFileName, { force: true });
+      throw e;
+    }
+  }
+
+  delete(key: string): boolean {
+    const fileName = this.pathFor(key);
+
+    if (!fs.existsSync(fileName)) {
+      return false;
+    }
+
+    fs.rmSync(fileName);
+    return true;
+  }
+
+  list(prefix = ""): string[] {
+    //only read the directory the prefix points into, e.g. `summaries/` for `summaries/my-`
+    const dir = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+
+    return this.listDir(dir)
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+  }
+
+  /**
+   * Returns the keys of every file inside a directory and its subdirectories. The directory is given
+   * as a key prefix, e.g. `summaries/`, or `""` for the whole store. `readdirSync`'s `recursive`
+   * option is avoided, as `Dirent.parentPath` is missing from the Node versions before 20.12.
+   */
+  private listDir(dir: string): string[] {
+    let entries: fs.Dirent[];
+
+    try {
+      entries = fs.readdirSync(path.join(this.dir, dir), { withFileTypes: true });
+    } catch (e) {
+      if (["ENOENT", "ENOTDIR"].includes((e as NodeJS.ErrnoException).code!)) {
+        return [];
+      }
+
+      throw e;
+    }
+
+    return entries
+      .filter((entry) => !entry.name.startsWith("."))
+      .flatMap((entry) => {
+        if (entry.isDirectory()) {
+          return this.listDir(`${dir}${entry.name}/`);
+        }
+
+        return entry.isFile() ? [`${dir}${entry.name}`] : [];
+      });
+  }
+}
+
+/**
+ * Keeps everything in memory. Useful for serverless and read-only environments, and for tests.
+ */
+export class MemoryCacheStore implements CacheStore {
+  /**
+   * The stored values, keyed by cache key.
+   */
+  records: Map<string, string>;
+
+  constructor() {
+    this.records = new Map();
+  }
+
+  get(key: string): string | undefined {
+    return this.records.get(key);
+  }
+
+  set(key: string, value: string): void {
+    this.records.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    return this.records.delete(key);
+  }
+
+  list(prefix = ""): string[] {
+    return [...this.records.keys()].filter((key) => key.startsWith(prefix)).sort();
+  }
+}
+
+/**
+ * Keeps everything in another store, under keys that start with a fixed prefix. ReadNext uses this
+ * to give each collection its own area of a shared cache, e.g. `collections/blog/summaries/my-article`.
+ */
+export class PrefixedCacheStore implements CacheStore {
+  /**
+   * The store the values are kept in.
+   */
+  store: CacheStore;
+
+  /**
+   * The prefix added to every key, e.g. `collections/blog/`.
+   */
+  prefix: string;
+
+  /**
+   * Constructs a new `PrefixedCacheStore`.
+   *
+   * @param store - The store to keep the values in.
+   * @param prefix - The prefix to add to every key.
+   */
+  constructor({ store, prefix }: { store: CacheStore; prefix: string }) {
+    this.store = store;
+    this.prefix = prefix;
+  }
+
+  get(key: string): string | undefined {
+    return this.store.get(this.prefix + key);
+  }
+
+  set(key: string, value: string): void {
+    this.store.set(this.prefix + key, value);
+  }
+
+  delete(key: string): boolean {
+    return this.store.delete(this.prefix + key);
+  }
+
+  list(prefix = ""): string[] {
+    return this.store.list(this.prefix + prefix).map((key) => key.slice(this.prefix.length));
+  }
+}
+
+/**
+ * The subset of a synchronous SQLite driver that `SqliteCacheStore` uses. Both `better-sqlite3`
+ * databases and Node's built-in `node:sqlite` `DatabaseSync` satisfy it.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    get(...params: any[]): any;
+    all(...params: any[]): any[];
+    run(...params: any[]): { changes: number | bigint };
+  };
+}
+
+/**
+ * Stores everything in a single SQLite table, which makes the whole cache one file that is easy to
+ * share between build machines. Pass in a database from a synchronous driver such as
+ * `better-sqlite3`:
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const cacheStore = new SqliteCacheStore({ database: new Database("read-next.db") });
+ * ```
+ */
+export class SqliteCacheStore implements CacheStore {
+  /**
+   * The database the table lives in.
+   */
+  database: SqliteDatabase;
+
+  /**
+   * The name of the table used to store the cache.
+   */
+  table: string;
+
+  /**
+   * Constructs a new `SqliteCacheStore`, creating its table if it doesn't exist yet.
+   *
+   * @param database - The SQLite database to use.
+   * @param table - The name of the table to store the cache in, defaults to `read_next_cache`.
+   */
+  constructor({ database, table = "read_next_cache" }: { database: SqliteDatabase; table?: string }) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+
+    this.database = database;
+    this.table = table;
+
+    this.database.exec(`CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+  }
+
+  get(key: string): string | undefined {
+    const row = this.database.prepare(`SELECT value FROM ${this.table} WHERE key = ?`).get(key);
+
+    return row?.value;
+  }
+
+  set(key: string, value: string): void {
+    this.database
+      .prepare(
+        `INSERT INTO ${this.table} (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+      )
+      .run(key, value);
+  }
+
+  delete(key: string): boolean {
+    const { changes } = this.database.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+
+    return Number(changes) > 0;
+  }
+
+  list(prefix = ""): string[] {
+    return this.database
+      .prepare(`SELECT key FROM ${this.table} WHERE substr(key, 1, ?) = ? ORDER BY key`)
+      .all(prefix.length, prefix)
+      .map((row) => row.key);
+  }
+}
@@ -1,13 +1,33 @@
 import { createHash } from "crypto";
-import fs from "fs";
 import path from "path";
 import winston from "winston";
 import type { DocumentInput } from "@langchain/core/documents";
 
+import { FileSystemCacheStore } from "./CacheStore";
+import type { CacheStore } from "./CacheStore";
+
+/**
+ * Identifies what produced a document's summary: hashes of the summarization prompt (as evaluated
+ * for that document) and of the summary model's identity and settings.
+ */
+export interface SummaryFingerprint {
+  prompt: string;
+  model: string;
+}
+
+/**
+ * Why a document's cached summary can't be used: it has never been summarized, or its content,
+ * summarization prompt or summary model has changed since it was.
+ */
+export type StaleReason = "new" | "content" | "prompt" | "model";
+
 /**
  * The `ContentHasher` class is responsible for managing content hashes for documents.
  * It provides methods to check if a document's content is fresh, set new content hashes,
- * and load/save these hashes from/to a cache file.
+ * and load/save these hashes from/to a cache file (via a `CacheStore`).
+ *
+ * Each save also writes a backup (e.g. `contentHashes.json.bak`), which is loaded instead if the
+ * cache file is ever corrupted, so that a bad write doesn't cause everything to be re-summarized.
  */
 export default class ContentHasher {
   /**
@@ -15,6 +35,11 @@ export default class ContentHasher {
    */
   records: Map<string, string>;
 
+  /**
+   * A map that stores document IDs and the fingerprints of the prompt and model that summarized them.
+   */
+  fingerprints: Map<string, SummaryFingerprint>;
+
   /**
    * The directory where the cache file is stored.
    */
@@ -25,6 +50,40 @@ export default class ContentHasher {
    */
   cacheFile: string;
 
+  /**
+   * The key the content hashes are stored under in the cache store.
+   */
+  cacheKey = "contentHashes.json";
+
+  /**
+   * The key the summary fingerprints are stored under in the cache store. They are kept apart from
+   * the content hashes so that the format of `contentHashes.json` doesn't change.
+   */
+  fingerprintsKey = "summaryFingerprints.json";
+
+  /**
+   * The store the content hashes are loaded from and saved to.
+   */
+  store: CacheStore;
+
+  /**
+   * How many saves are collected into one write while a batch is running.
+   */
+  batchSize = 20;
+
+  /**
+   * How many `batch` calls are running, and how many saves they have put off.
+   */
+  private batchDepth = 0;
+  private pendingSaves = 0;
+
+  /**
+   * The ids changed and deleted since the last save. Only these are written over the saved hashes,
+   * so that anything else another process has saved in the meantime is kept.
+   */
+  private changed = new Set<string>();
+  private deleted = new Set<string>();
+
   /**
    * A logger instance for logging messages and errors.
    */
@@ -35,32 +94,69 @@ export default class ContentHasher {
    *
    * @param cacheDir - The directory where the cache file is stored.
    * @param logger - A logger instance for logging messages and errors.
+   * @param store - The store to keep the content hashes in, defaults to a file inside `cacheDir`.
    */
-  constructor({ cacheDir, logger }: { cacheDir: string; logger: winston.Logger }) {
+  constructor({ cacheDir, logger, store }: { cacheDir: string; logger: winston.Logger; store?: CacheStore }) {
     this.records = new Map();
+    this.fingerprints = new Map();
     this.logger = logger;
 
     this.cacheDir = cacheDir;
-    this.cacheFile = path.join(cacheDir, "contentHashes.json");
+    this.cacheFile = path.join(cacheDir, this.cacheKey);
+    this.store = store || new FileSystemCacheStore({ dir: cacheDir });
     this.load();
   }
 
   /**
    * Checks if the content of a given document is fresh by comparing its hash with the stored hash.
+   * If a fingerprint is given, the document is only fresh if it was also summarized with the same
+   * prompt and model.
    *
    * @param document - The document to check.
+   * @param fingerprint - The fingerprint of the prompt and model that would summarize it now.
    * @returns `true` if the document's content is fresh, `false` otherwise.
    */
-  hasFresh(document: DocumentInput): boolean {
+  hasFresh(document: DocumentInput, fingerprint?: SummaryFingerprint): boolean {
+    if (document.id) {
+      return this.staleReason(document, fingerprint) === undefined;
+    } else {
+      this.logger.warn("No id supplied, so caching will not work");
+      return false;
+    }
+  }
+
+  /**
+   * Explains why a document is not fresh. Documents whose summaries were cached before fingerprints
+   * were recorded are assumed to match the given fingerprint, rather than all being re-summarized.
+   *
+   * @param document - The document to check.
+   * @param fingerprint - The fingerprint of the prompt and model that would summarize it now.
+   * @returns Why the document is stale, or `undefined` if it is fresh.
+   */
+  staleReason(document: DocumentInput, fingerprint?: SummaryFingerprint): StaleReason | undefined {
     const { pageContent, id } = document;
 
     const contentSha = createHash("sha256").update(pageContent).digest("hex");
+    const recordedSha = id ? this.records.get(id) : undefined;
 
-    if (id) {
-      return this.records.get(id) === contentSha;
-    } else {
-      this.logger.warn("No id supplied, so caching will not work");
-      return false;
+    if (recordedSha === undefined) {
+      return "new";
+    }
+
+    if (recordedSha !== contentSha) {
+      return "content";
+    }
+
+    const recordedFingerprint = this.fingerprints.get(id!);
+
+    if (fingerprint && recordedFingerprint) {
+      if (recordedFingerprint.prompt !== fingerprint.prompt) {
+        return "prompt";
+      }
+
+      if (recordedFingerprint.model !== fingerprint.model) {
+        return "model";
+      }
     }
   }
 
@@ -75,37 +171,208 @@ export default class ContentHasher {
     const contentSha = createHash("sha256").update(pageContent).digest("hex");
 
     if (id) {
-      this.records.set(id, contentSha);
+      this.setHash(id, contentSha);
     } else {
       this.logger.warn("No id supplied, so caching will not work");
     }
   }
 
   /**
-   * Loads the content hashes from the cache file.
+   * Sets the content hash for a given document id directly, e.g. when importing a snapshot.
+   *
+   * @param id - The id of the document.
+   * @param contentHash - The hash of the document's content.
+   */
+  setHash(id: string, contentHash: string) {
+    this.records.set(id, contentHash);
+    this.changed.add(id);
+    this.deleted.delete(id);
+  }
+
+  /**
+   * Records the fingerprint of the prompt and model that summarized a document.
+   *
+   * @param id - The id of the document.
+   * @param fingerprint - The fingerprint to record.
+   */
+  setFingerprint(id: string, fingerprint: SummaryFingerprint) {
+    this.fingerprints.set(id, fingerprint);
+    this.changed.add(id);
+    this.deleted.delete(id);
+  }
+
+  /**
+   * Removes the content hash and fingerprint for a given document id.
+   *
+   * @param id - The id of the document to forget.
+   * @returns `true` if a hash was removed, `false` if there was none for that id.
+   */
+  delete(id: string): boolean {
+    this.changed.delete(id);
+    this.deleted.add(id);
+    this.fingerprints.delete(id);
+    return this.records.delete(id);
+  }
+
+  /**
+   * Loads the content hashes and fingerprints from the cache store, falling back to their backups if
+   * either is corrupt.
    *
    * @returns `true` if the content hashes were successfully loaded, `false` otherwise.
    */
   load(): boolean {
+    const records = this.read(this.cacheKey);
+    const fingerprints = this.read(this.fingerprintsKey);
+
+    if (records) {
+      this.records = new Map(Object.entries(records));
+    }
+
+    if (fingerprints) {
+      this.fingerprints = new Map(Object.entries(fingerprints));
+    }
+
+    return records !== null && fingerprints !== null;
+  }
+
+  /**
+   * Loads the content hashes and fingerprints again, picking up anything other processes have saved
+   * since. Changes that haven't been saved yet are kept.
+   *
+   * @returns `true` if the content hashes were successfully loaded, `false` otherwise.
+   */
+  reload(): boolean {
+    this.flush();
+
+    const { records, fingerprints } = this;
+    const loaded = this.load();
+
+    for (const id of this.deleted) {
+      this.records.delete(id);
+      this.fingerprints.delete(id);
+    }
+
+    for (const id of this.changed) {
+      if (records.has(id)) {
+        this.records.set(id, records.get(id)!);
+      }
+
+      if (fingerprints.has(id)) {
+        this.fingerprints.set(id, fingerprints.get(id)!);
+      }
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Saves the content hashes and fingerprints changed since the last save to the cache store.
+   * Anything else another process has saved since they were loaded is kept, and loaded. While a
+   * batch is running, saves are collected and written `batchSize` at a time.
+   */
+  save(): void {
+    if (this.batchDepth > 0 && ++this.pendingSaves < this.batchSize) {
+      return;
+    }
+
+    this.pendingSaves = 0;
+
+    //start from what is saved (or what is held, if nothing can be read), then apply this process's changes
+    const merge = <T>(saved: Record<string, T> | null | undefined, current: Map<string, T>) => {
+      const merged = saved ? new Map(Object.entries(saved)) : new Map(current);
+
+      for (const id of this.deleted) {
+        merged.delete(id);
+      }
+
+      for (const id of this.changed) {
+        if (current.has(id)) {
+          merged.set(id, current.get(id)!);
+        }
+      }
+
+      return merged;
+    };
+
+    this.records = merge(this.read(this.cacheKey), this.records);
+    this.fingerprints = merge(this.read(this.fingerprintsKey), this.fingerprints);
+    this.changed.clear();
+    this.deleted.clear();
+
+    this.write(this.cacheKey, Object.fromEntries(this.records));
+    this.write(this.fingerprintsKey, Object.fromEntries(this.fingerprints));
+  }
+
+  /**
+   * Writes any saves that a batch has put off.
+   */
+  flush(): void {
+    if (this.pendingSaves > 0) {
+      this.pendingSaves = this.batchSize;
+      this.save();
+    }
+  }
+
+  /**
+   * Runs a function with saves batched, so that indexing many documents doesn't rewrite the content
+   * hashes after every one. Whatever is left is saved when the function finishes, even if it throws.
+   *
+   * @param fn - The function to run.
+   * @returns Whatever the function returns.
+   */
+  async batch<T>(fn: () => Promise<T>): Promise<T> {
+    this.batchDepth += 1;
+
     try {
-      if (fs.existsSync(this.cacheFile)) {
-        const records = JSON.parse(fs.readFileSync(this.cacheFile, "utf-8"));
-        this.records = new Map(Object.entries(records));
+      return await fn();
+    } finally {
+      this.batchDepth -= 1;
+
+      if (this.batchDepth === 0) {
+        this.flush();
       }
+    }
+  }
+
+  /**
+   * Reads the JSON stored under a key, or its backup if that can't be parsed.
+   *
+   * @returns The parsed JSON, `undefined` if nothing has been stored, or `null` if neither can be read.
+   */
+  private read(key: string): Record<string, any> | undefined | null {
+    try {
+      const json = this.store.get(key);
+
+      return json === undefined ? undefined : JSON.parse(json);
     } catch (e) {
       this.logger.error("Error loading content hashes");
       this.logger.error(e);
+    }
 
-      return false;
+    try {
+      const backup = this.store.get(`${key}.bak`);
+
+      if (backup !== undefined) {
+        const json = JSON.parse(backup);
+        this.logger.warn(`Recovered ${key} from ${key}.bak`);
+
+        return json;
+      }
+    } catch (e) {
+      this.logger.error(`Error loading ${key}.bak`);
+      this.logger.error(e);
     }
 
-    return true;
+    return null;
   }
 
   /**
-   * Saves the current content hashes to the cache file.
+   * Writes JSON under a key, and again under the key's backup.
    */
-  save(): void {
-    fs.writeFileSync(this.cacheFile, JSON.stringify(Object.fromEntries(this.records), null, 2));
+  private write(key: string, value: Record<string, unknown>) {
+    const json = JSON.stringify(value, null, 2);
+
+    this.store.set(key, json);
+    this.store.set(`${key}.bak`, json);
   }
 }
@@ -1,6 +1,7 @@
 import fs from "fs";
 import path from "path";
 import os from "os";
+import { EventEmitter } from "events";
 
 import type { Document, DocumentInput } from "@langchain/core/documents";
 import type { VectorStore } from "@langchain/core/vectorstores";
@@ -13,21 +14,63 @@ import { StringOutputParser } from "@langchain/core/output_parsers";
 
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { Runnable } from "@langchain/core/runnables";
+import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 
 import winston from "winston";
 
 import { readNextLogger } from "./logger";
 import ContentHasher from "./ContentHasher";
+import type { StaleReason, SummaryFingerprint } from "./ContentHasher";
+import { embeddingsFingerprint, hash, modelFingerprint, stableStringify } from "./fingerprint";
+import { FileSystemCacheStore, PrefixedCacheStore } from "./CacheStore";
+import type { CacheStore } from "./CacheStore";
+import { matchesFilter } from "./filter";
+import type { MetadataFilter } from "./filter";
+import { rank } from "./ranking";
+import type { Ranking, RankingOptions } from "./ranking";
+import { deleteFromVectorStore, getStoredVectors, getVectorStoreIds, toSimilarity } from "./vectors";
+import type { ScoreType, StoredVector } from "./vectors";
+import { maximalMarginalRelevance, cosineSimilarity } from "./diversity";
+import { withRetry } from "./retry";
+import type { RetryOptions } from "./retry";
+import { IndexError, SchemaValidationError } from "./errors";
+import { readNextEventTypes } from "./events";
+import type { IndexProgress, ReadNextEvent, ReadNextEvents } from "./events";
+import { addTokens, addUsage, defaultPricing, emptyUsage, estimateTokens, getModelName, readTokenUsage } from "./usage";
+import type { ModelPrice, Pricing, TokenUsage, Usage } from "./usage";
+import { readSnapshot, snapshotVersion, writeSnapshot } from "./snapshot";
+import { historyWeights, reciprocalRankFusion, weightedCentroid } from "./history";
+import type { HistoryItem } from "./history";
+import { defaultEnrichmentPrompt, enrichmentSchema, readingTime } from "./enrichment";
+import type { Enrichment } from "./enrichment";
+import { parseJsonResponse } from "./schema";
+import type { ResponseSchema } from "./schema";
+import type { Snapshot } from "./snapshot";
+import { CacheLock } from "./lock";
+import { checkConsistency, mostCommonLength } from "./consistency";
+import type { ConsistencyIssue, VerifyResult } from "./consistency";
+import type { LockOptions } from "./lock";
 
 interface ReadNextArgs {
   vectorStore: VectorStore;
   summaryModel: BaseChatModel;
   summarizationPrompt?: SummarizationPrompt;
+  explanationPrompt?: string;
+  enrich?: boolean;
+  enrichmentPrompt?: string;
   cacheDir?: string;
+  cacheStore?: CacheStore;
+  lock?: boolean | LockOptions;
   logger?: winston.Logger;
   parallel?: number;
   getSourceDocument?: (doc: any) => DocumentInput;
   sourceDocuments?: any[];
+  chunking?: ChunkingOptions;
+  retry?: RetryOptions;
+  pricing?: Pricing;
+  scoreType?: ScoreType;
+  collections?: Record<string, CollectionOptions & { vectorStore: VectorStore }>;
+  collectionName?: string;
 }
 
 interface CreateReadNextArgs {
@@ -35,45 +78,180 @@ interface CreateReadNextArgs {
   embeddingsModel?: Embeddings;
   summaryModel?: BaseChatModel;
   summarizationPrompt?: SummarizationPrompt;
+  explanationPrompt?: string;
+  enrich?: boolean;
+  enrichmentPrompt?: string;
   cacheDir?: string;
+  cacheStore?: CacheStore;
+  lock?: boolean | LockOptions;
   logger?: winston.Logger;
   parallel?: number;
   getSourceDocument?: (doc: any) => DocumentInput;
   sourceDocuments?: any[];
+  chunking?: ChunkingOptions;
+  retry?: RetryOptions;
+  pricing?: Pricing;
+  scoreType?: ScoreType;
+  collections?: Record<string, CollectionOptions>;
+}
+
+/**
+ * The settings for a collection: a set of documents that is indexed and searched separately from the
+ * others, such as blog posts, docs pages or talks. Everything else is shared with the ReadNext
+ * instance the collection belongs to.
+ *
+ * @property {VectorStore} [vectorStore] - The collection's vector store, defaults to a FaissStore kept in `collections/<name>` in the cacheDir.
+ * @property {string|Function} [summarizationPrompt] - The prompt used to summarize the collection's documents, defaults to the instance's.
+ */
+export interface CollectionOptions {
+  vectorStore?: VectorStore;
+  summarizationPrompt?: SummarizationPrompt;
 }
 
 interface Summarize {
   sourceDocument: DocumentInput;
   saveSummary?: boolean;
   summarizationPrompt?: SummarizationPrompt;
+  usage?: Usage;
 }
 
 interface Suggest {
   sourceDocument: DocumentInput | any;
   limit?: number;
-  ignore?: Document[];
+  ignore?: (DocumentInput | string)[];
+  filter?: MetadataFilter;
+  includeSummary?: boolean;
+  ranking?: RankingOptions;
+  diversity?: number;
+  minScore?: number;
+  explain?: boolean;
+  collection?: string;
+  from?: string;
+  to?: string | string[];
+}
+
+interface SuggestForHistory {
+  history: HistoryItem[];
+  limit?: number;
+  strategy?: "centroid" | "rrf";
+  halfLifeDays?: number;
+  ignore?: (DocumentInput | string)[];
+  filter?: MetadataFilter;
+  includeSummary?: boolean;
+  minScore?: number;
+  collection?: string;
+}
+
+interface Search {
+  query?: string;
+  document?: DocumentInput | any;
+  summarize?: boolean;
+  summarizationPrompt?: SummarizationPrompt;
+  limit?: number;
+  ignore?: (DocumentInput | string)[];
+  filter?: MetadataFilter;
   includeSummary?: boolean;
+  minScore?: number;
+  collection?: string;
 }
 
 type SummarizationPrompt = string | ((doc: DocumentInput) => string);
 
+/**
+ * Controls how documents that are too long to summarize in one go are split up.
+ *
+ * @property {number} [maxLength=100000] - Documents longer than this many characters are summarized in chunks.
+ * @property {number} [chunkSize=20000] - The maximum length of each chunk, in characters.
+ * @property {number} [chunkOverlap=500] - How many characters consecutive chunks share.
+ * @property {string} [chunkPrompt] - The prompt used to summarize each chunk.
+ * @property {string} [combinePrompt] - Added to the summarization prompt when combining the chunk summaries.
+ */
+interface ChunkingOptions {
+  maxLength?: number;
+  chunkSize?: number;
+  chunkOverlap?: number;
+  chunkPrompt?: string;
+  combinePrompt?: string;
+}
+
 interface GetSummaryArgs {
   sourceDocument: DocumentInput;
   summarizationPrompt?: SummarizationPrompt;
+  usage?: Usage;
+  reuseCached?: boolean;
+}
+
+interface GetEnrichmentArgs {
+  sourceDocument: DocumentInput;
+  summary?: string;
+  usage?: Usage;
 }
 
 interface IndexArgs {
-  sourceDocuments: DocumentInput[];
+  sourceDocuments?: DocumentInput[];
   parallel?: number;
   summarizationPrompt?: SummarizationPrompt;
+  continueOnError?: boolean;
+  retry?: RetryOptions;
+  onProgress?: (event: ReadNextEvent) => void;
+  maxCost?: number;
+  dryRun?: boolean;
+  enrich?: boolean;
+  collection?: string;
+}
+
+interface RelatedToArgs {
+  id?: string;
+  metadata: Record<string, any>;
+  exclude: Set<string | undefined>;
+  limit: number;
+  filter?: MetadataFilter;
+  includeSummary?: boolean;
+  ranking?: RankingOptions;
+  diversity: number;
+  minScore: number;
+}
+
+interface RelatedDocumentsArgs {
+  exclude: Set<string | undefined>;
+  filter?: MetadataFilter;
+  includeSummary?: boolean;
+  minScore?: number;
+}
+
+interface SuggestAllArgs {
+  limit?: number;
+  save?: boolean;
+  fileName?: string;
+  minScore?: number;
+  ids?: string[];
+  collection?: string;
+}
+
+interface PruneArgs {
+  sourceDocuments?: DocumentInput[];
+  collection?: string;
+}
+
+interface VerifyArgs {
+  collection?: string;
 }
 
 export interface PromptArgs {
   sourceDocuments?: any[];
   prompt: any;
   docId?: string;
+  withUsage?: boolean;
+  schema?: ResponseSchema<any>;
+  cache?: boolean;
 }
 
+/**
+ * How many tokens a summary is expected to take, used to estimate the cost of documents that
+ * haven't been summarized yet.
+ */
+const expectedSummaryTokens = 500;
+
 export const defaultSummarizationPrompt = `Here is an article for you to summarize.
   The purpose of the summarization is to drive recommendations for what article somebody should read next,
   based on the article they are currently reading. The summarization should be as lengthy as necessary to
@@ -82,11 +260,53 @@ export const defaultSummarizationPrompt = `Here is an article for you to summari
 
   Please do not reply with any text other than the summary.`;
 
+//explains why a document is being summarized, depending on why its cached summary couldn't be used
+const staleSummaryMessages: Record<StaleReason, (id?: string) => string> = {
+  new: (id) => `No summary found for ${id}, will generate a new one`,
+  content: (id) => `Content of ${id} has changed, will generate a new summary`,
+  prompt: (id) => `Summarization prompt for ${id} has changed, will generate a new summary`,
+  model: (id) => `Summary model for ${id} has changed, will generate a new summary`,
+};
+
+export const defaultExplanationPrompt = `Here are the summaries of two articles: the one somebody is reading, and
+  an article that has been suggested for them to read next. In a single short sentence, addressed to the reader, explain
+  why they might want to read the suggested article next.
+
+  Please do not reply with any text other than that sentence.`;
+
+export const defaultChunkPrompt = `Here is one section of a longer article, which is too long to summarize in one go.
+  Please summarize this section. The summaries of all of the sections will be combined into a single summary of the
+  whole article, so capture everything that matters about this section, including its place in the wider article.
+
+  Please do not reply with any text other than the summary.`;
+
+export const defaultCombinePrompt = `The article has been split into consecutive sections, and what follows is a summary of
+  each section in order. Please combine them into a single summary of the whole article.`;
+
+/**
+ * Loads the FaissStore saved in a directory, or creates an empty one if there isn't one there.
+ */
+async function loadFaissStore(embeddingsModel: EmbeddingsInterface, dir?: string): Promise<VectorStore> {
+  if (dir && fs.existsSync(path.join(dir, "faiss.index"))) {
+    return FaissStore.load(dir, embeddingsModel);
+  }
+
+  return new FaissStore(embeddingsModel, {});
+}
+
 /**
  * The `ReadNext` class provides functionality for summarizing documents, creating embeddings,
  * and storing them in a vector store for similarity searches. It also supports caching summaries
  * and embeddings to improve performance.
  *
+ * While indexing, it emits the events described by `ReadNextEvents`, which can be used to drive
+ * progress bars and the like:
+ *
+ * @example
+ * ```typescript
+ * readNext.on("embedding:added", ({ id, progress }) => console.log(`${progress.completed}/${progress.total} ${id}`));
+ * ```
+ *
  * @class
  * @property {BaseChatModel} summaryModel - The model used for generating summaries.
  * @property {EmbeddingsInterface} embeddingsModel - The model used for generating embeddings.
@@ -95,20 +315,33 @@ export const defaultSummarizationPrompt = `Here is an article for you to summari
  * @property {StringOutputParser} summaryParser - The parser used for parsing summary outputs.
  * @property {Runnable} summaryChain - The chain of operations for summarization.
  * @property {string} cacheDir - The directory used for caching summaries and embeddings.
+ * @property {CacheStore} cacheStore - The store that summaries and content hashes are cached in.
+ * @property {CacheLock} [lock] - The lock that stops processes sharing the cacheDir from writing to it at the same time.
  * @property {ContentHasher} contentHasher - The hasher used for content hashing.
  * @property {winston.Logger} logger - The logger used for logging information.
  *
  */
-export class ReadNext {
+export class ReadNext extends EventEmitter<ReadNextEvents> {
   summaryModel: BaseChatModel;
   embeddingsModel: EmbeddingsInterface;
   summarizationPrompt: SummarizationPrompt;
+  explanationPrompt: string;
+  enrich: boolean;
+  enrichmentPrompt: string;
   vectorStore: VectorStore;
 
   summaryParser: StringOutputParser;
   summaryChain: Runnable;
 
   cacheDir: string;
+  cacheStore: CacheStore;
+  lock?: CacheLock;
+
+  /**
+   * When the FaissStore saved in the cacheDir was last loaded or saved by this instance, so that
+   * it can be reloaded if another process saves it in the meantime.
+   */
+  private vectorStoreModified?: number;
 
   contentHasher: ContentHasher;
 
@@ -116,6 +349,12 @@ export class ReadNext {
   parallel: number;
   getSourceDocument: (doc: any) => DocumentInput = (doc) => doc;
   sourceDocuments: any[];
+  chunking: Required<ChunkingOptions>;
+  retry: RetryOptions;
+  pricing: Pricing;
+  scoreType?: ScoreType;
+  collections: Map<string, ReadNext>;
+  collectionName?: string;
 
   /**
    * Creates an instance of ReadNext with the provided configuration.
@@ -123,30 +362,60 @@ export class ReadNext {
    * @param {CreateReadNextArgs} [config={}] - The configuration object for creating ReadNext.
    * @param {Logger} [config.logger] - Optional logger for logging purposes.
    * @param {string} [config.cacheDir] - Optional directory path for caching.
+   * @param {CacheStore} [config.cacheStore] - Optional store for cached summaries and content hashes, defaults to files in the cacheDir.
+   * @param {boolean|LockOptions} [config.lock] - Whether to lock the cacheDir while writing to it, so that processes sharing it take turns. Defaults to `true` when the cache is kept in files.
    * @param {VectorStore} [config.vectorStore] - Optional vector store instance.
    * @param {string} [config.summarizationPrompt] - Optional prompt for summarization.
+   * @param {string} [config.explanationPrompt] - Optional prompt for explaining why a document is suggested.
+   * @param {boolean} [config.enrich=false] - Whether to generate a teaser, keywords, tags, difficulty and reading time for each document when indexing.
+   * @param {string} [config.enrichmentPrompt] - Optional prompt for enriching documents.
    * @param {Model} [config.summaryModel] - Optional model for generating summaries.
    * @param {Model} [config.embeddingsModel] - Optional model for generating embeddings.
+   * @param {RetryOptions} [config.retry] - Optional retry and backoff settings for transient provider errors.
+   * @param {Pricing} [config.pricing] - Optional prices per model, merged over `defaultPricing`.
+   * @param {ScoreType} [config.scoreType] - Optional override for whether the vector store's scores are distances or similarities.
+   * @param {Object} [config.collections] - Optional named collections, each indexed separately with its own vector store and summarization prompt.
    *
    * @returns {Promise<ReadNext>} A promise that resolves to an instance of ReadNext.
    */
   static async create(config: CreateReadNextArgs = {}): Promise<ReadNext> {
-    let { logger, cacheDir, vectorStore, summarizationPrompt, summaryModel, parallel, getSourceDocument } = config;
+    let {
+      logger,
+      cacheDir,
+      cacheStore,
+      lock,
+      vectorStore,
+      summarizationPrompt,
+      explanationPrompt,
+      enrich,
+      enrichmentPrompt,
+      summaryModel,
+      parallel,
+      getSourceDocument,
+      chunking,
+      retry,
+      pricing,
+      scoreType,
+    } = config;
 
     if (!config.embeddingsModel) {
       config.embeddingsModel = new OpenAIEmbeddings({ model: "text-embedding-ada-002" });
     }
 
-    if (!vectorStore && cacheDir) {
-      const faissPath = path.join(cacheDir, "faiss.index");
-
-      if (fs.existsSync(faissPath)) {
-        vectorStore = await FaissStore.load(cacheDir, config.embeddingsModel);
-      }
+    if (!vectorStore) {
+      vectorStore = await loadFaissStore(config.embeddingsModel, cacheDir);
     }
 
-    if (!vectorStore) {
-      vectorStore = new FaissStore(config.embeddingsModel, {});
+    //each collection without a vector store of its own gets a FaissStore in its own directory
+    const collections: ReadNextArgs["collections"] = {};
+
+    for (const [name, options] of Object.entries(config.collections ?? {})) {
+      collections[name] = {
+        ...options,
+        vectorStore:
+          options.vectorStore ??
+          (await loadFaissStore(config.embeddingsModel, cacheDir && path.join(cacheDir, "collections", name))),
+      };
     }
 
     if (!summaryModel) {
@@ -157,55 +426,233 @@ export class ReadNext {
       vectorStore,
       summaryModel,
       cacheDir,
+      cacheStore,
+      lock,
       summarizationPrompt,
+      explanationPrompt,
+      enrich,
+      enrichmentPrompt,
       logger,
       parallel,
       getSourceDocument,
+      chunking,
+      retry,
+      pricing,
+      scoreType,
+      collections,
     };
 
     return new ReadNext(readNextConfig);
   }
 
+  /**
+   * Creates an instance of ReadNext from a snapshot written by `exportSnapshot`, without calling
+   * any models. The snapshot's summaries, content hashes and embeddings are loaded into the new
+   * instance's cacheStore and vector store, which can be any LangChain `VectorStore`.
+   *
+   * @param {string} filePath - The snapshot file to import.
+   * @param {CreateReadNextArgs} [config={}] - The configuration for the new instance, as for `create`.
+   *
+   * @returns {Promise<ReadNext>} A promise that resolves to the populated instance of ReadNext.
+   */
+  static async importSnapshot(filePath: string, config: CreateReadNextArgs = {}): Promise<ReadNext> {
+    const readNext = await ReadNext.create(config);
+
+    await readNext.withLock(() => readNext.loadSnapshot(readSnapshot(filePath)));
+
+    return readNext;
+  }
+
   /**
    * Constructs an instance of the ReadNext class.
    *
    * @param vectorStore - The vector store used for embeddings.
    * @param summaryModel - The model used for generating summaries.
    * @param summarizationPrompt - The prompt used for summarization, defaults to `defaultSummarizationPrompt`.
+   * @param explanationPrompt - The prompt used to explain why a document is suggested, defaults to `defaultExplanationPrompt`.
+   * @param enrich - Whether to enrich each document with a teaser, keywords, tags, difficulty and reading time when indexing.
+   * @param enrichmentPrompt - The prompt used to enrich documents, defaults to `defaultEnrichmentPrompt`.
    * @param cacheDir - The directory used for caching, defaults to the system's temporary directory.
+   * @param cacheStore - The store used for cached summaries and content hashes, defaults to files in the cacheDir.
+   * @param lock - Whether to lock the cacheDir while writing to it, defaults to `true` when `cacheStore` is a `FileSystemCacheStore`.
    * @param logger - The logger instance, defaults to a Winston logger with console transport.
+   * @param retry - How calls to the summary model and vector store are retried when they fail with a transient error.
+   * @param pricing - Prices per model, used to work out what indexing costs. Merged over `defaultPricing`.
+   * @param scoreType - Whether the vector store's raw scores are distances or similarities, detected automatically by default.
+   * @param collections - Named collections, each with its own vector store and (optionally) summarization prompt.
+   * @param collectionName - The name of the collection this instance holds, if it is one of another instance's collections.
    */
   constructor({
     vectorStore,
     summaryModel,
     summarizationPrompt = defaultSummarizationPrompt,
+    explanationPrompt = defaultExplanationPrompt,
+    enrich = false,
+    enrichmentPrompt = defaultEnrichmentPrompt,
     cacheDir,
+    cacheStore,
+    lock,
     logger,
     parallel = 1,
     getSourceDocument,
     sourceDocuments,
+    chunking,
+    retry = {},
+    pricing,
+    scoreType,
+    collections = {},
+    collectionName,
   }: ReadNextArgs) {
+    super();
+
     this.vectorStore = vectorStore;
     this.summaryModel = summaryModel;
     this.summarizationPrompt = summarizationPrompt;
+    this.explanationPrompt = explanationPrompt;
+    this.enrich = enrich;
+    this.enrichmentPrompt = enrichmentPrompt;
     this.embeddingsModel = this.vectorStore.embeddings;
 
     this.summaryParser = new StringOutputParser();
     this.summaryChain = this.summaryModel.pipe(this.summaryParser);
 
     this.cacheDir = cacheDir || path.join(os.tmpdir(), "read-next-cache");
-
-    fs.mkdirSync(this.cacheDir, { recursive: true });
+    this.cacheStore = cacheStore || new FileSystemCacheStore({ dir: this.cacheDir });
 
     this.logger = logger || readNextLogger;
     this.parallel = parallel;
 
+    if (lock ?? this.cacheStore instanceof FileSystemCacheStore) {
+      this.lock = new CacheLock({
+        ...(typeof lock === "object" ? lock : {}),
+        file: path.join(this.cacheDir, ".lock"),
+        logger: this.logger,
+        onAcquire: () => this.reloadCache(),
+      });
+    }
+
     if (typeof getSourceDocument === "function") {
       this.getSourceDocument = getSourceDocument; // || ((doc: any) => doc);
     }
     this.sourceDocuments = sourceDocuments || [];
 
-    this.contentHasher = new ContentHasher({ cacheDir: this.cacheDir, logger: this.logger });
+    this.chunking = {
+      maxLength: 100000,
+      chunkSize: 20000,
+      chunkOverlap: 500,
+      chunkPrompt: defaultChunkPrompt,
+      combinePrompt: defaultCombinePrompt,
+      ...chunking,
+    };
+    this.retry = retry;
+    this.pricing = { ...defaultPricing, ...pricing };
+    this.scoreType = scoreType;
+
+    this.contentHasher = new ContentHasher({ cacheDir: this.cacheDir, logger: this.logger, store: this.cacheStore });
+    this.vectorStoreModified = this.getVectorStoreModified();
+
+    this.collectionName = collectionName;
+    this.collections = new Map();
+
+    for (const [name, options] of Object.entries(collections)) {
+      if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+        throw new Error(`Invalid collection name: ${name}`);
+      }
+
+      const collection = new ReadNext({
+        vectorStore: options.vectorStore,
+        summaryModel,
+        summarizationPrompt: options.summarizationPrompt ?? summarizationPrompt,
+        explanationPrompt,
+        enrich,
+        enrichmentPrompt,
+        cacheDir: path.join(this.cacheDir, "collections", name),
+        cacheStore: new PrefixedCacheStore({ store: this.cacheStore, prefix: `collections/${name}/` }),
+        lock: false,
+        logger: this.logger,
+        parallel,
+        getSourceDocument: this.getSourceDocument,
+        chunking: this.chunking,
+        retry,
+        pricing: this.pricing,
+        scoreType,
+        collectionName: name,
+      });
+
+      //collections live inside this instance's cacheDir, so they share its lock
+      collection.lock = this.lock;
+
+      //pass the collection's events on, so listeners on this instance hear about every collection
+      for (const type of readNextEventTypes) {
+        collection.on(type, (payload: any) => (this.emit as (type: string, payload: any) => boolean)(type, payload));
+      }
+
+      this.collections.set(name, collection);
+    }
+  }
+
+  /**
+   * Returns one of the named collections passed to `create`. Each collection is itself a ReadNext
+   * instance, with its own vector store, summaries and content hashes kept under
+   * `collections/<name>` in the cache.
+   *
+   * @param name - The name of the collection.
+   * @returns The collection.
+   * @throws If there is no collection with that name.
+   */
+  collection(name: string): ReadNext {
+    const collection = this.collections.get(name);
+
+    if (!collection) {
+      throw new Error(`Unknown collection: ${name}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Runs a function that writes to the cache while holding the lock on the cacheDir, if locking is
+   * enabled, so that other processes sharing the cacheDir wait for it to finish.
+   */
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.lock ? this.lock.withLock(fn) : fn();
+  }
+
+  /**
+   * Reloads what other processes may have written to the cacheDir while this one wasn't holding the
+   * lock - the content hashes, and the FaissStore if it has been saved since - so that writing
+   * doesn't overwrite their work with stale state. Called each time the lock is acquired.
+   */
+  private async reloadCache() {
+    this.contentHasher.reload();
+
+    const modified = this.getVectorStoreModified();
+
+    if (modified !== undefined && modified !== this.vectorStoreModified) {
+      this.logger.info(`Reloading the vector store from ${this.cacheDir}`);
+      this.vectorStore = await FaissStore.load(this.cacheDir, this.embeddingsModel);
+      this.vectorStoreModified = modified;
+    }
+
+    for (const collection of this.collections.values()) {
+      await collection.reloadCache();
+    }
+  }
+
+  /**
+   * Returns when the FaissStore saved in the cacheDir was last modified, or `undefined` if the
+   * vector store isn't a FaissStore or hasn't been saved.
+   */
+  private getVectorStoreModified(): number | undefined {
+    if (!(this.vectorStore instanceof FaissStore)) {
+      return undefined;
+    }
+
+    try {
+      return fs.statSync(path.join(this.cacheDir, "faiss.index")).mtimeMs;
+    } catch (e) {
+      return undefined;
+    }
   }
 
   /**
@@ -215,44 +662,211 @@ export class ReadNext {
    * @returns The content of the summary as a string if it exists, otherwise undefined.
    */
   getSummaryById(id: string) {
-    const summaryFileName = path.join(this.cacheDir, "summaries", id);
+    return this.cacheStore.get(`summaries/${id}`);
+  }
+
+  /**
+   * Retrieves the enrichment of a document by its identifier.
+   *
+   * @param id - The unique identifier of the document.
+   * @returns The document's teaser, keywords, tags, difficulty and reading time if it has been enriched, otherwise undefined.
+   */
+  getEnrichmentById(id: string): Enrichment | undefined {
+    return this.getCachedEnrichment(id)?.enrichment;
+  }
+
+  /**
+   * Reads a cached enrichment along with the fingerprint it was generated with. One that can't be
+   * parsed is treated as missing, so that it is generated again rather than breaking suggestions.
+   */
+  private getCachedEnrichment(id: string): { fingerprint: string; enrichment: Enrichment } | undefined {
+    const cached = this.cacheStore.get(`enrichments/${id}`);
+
+    try {
+      return cached === undefined ? undefined : JSON.parse(cached);
+    } catch (e) {
+      this.logger.warn(`Ignoring the unreadable cached enrichment for ${id}`, { id });
+      return undefined;
+    }
+  }
+
+  /**
+   * Generates the enrichment for the given source document: a teaser, keywords and tags, and a
+   * difficulty level from the summary model, plus a reading time worked out from the length of the
+   * content. The summary model is given the document's summary rather than its full content, so
+   * enriching costs a fraction of summarizing. Enrichments are cached alongside the summaries, and
+   * are regenerated whenever the summary, the enrichment prompt or the summary model changes.
+   *
+   * @param {Object} options - The input object containing the source document.
+   * @param {DocumentInput} options.sourceDocument - The document to enrich.
+   * @param {string} [options.summary] - The document's summary, if it is already to hand.
+   * @returns {Promise<Enrichment>} - A promise that resolves to the enrichment of the document.
+   * @throws {SchemaValidationError} If the summary model's response doesn't match `enrichmentSchema`.
+   */
+  async getEnrichmentFor({ sourceDocument, summary, usage }: GetEnrichmentArgs): Promise<Enrichment> {
+    const document = this.getSourceDocument(sourceDocument);
+    const { id } = document;
+
+    summary ??= await this.getSummaryFor({ sourceDocument, usage, reuseCached: true });
+
+    const fingerprint = hash(
+      stableStringify([hash(summary), this.enrichmentPrompt, modelFingerprint(this.summaryModel)])
+    );
+    const enrichmentKey = `enrichments/${id}`;
+    const cached = id ? this.getCachedEnrichment(id) : undefined;
+
+    if (cached?.fingerprint === fingerprint) {
+      this.logger.info(`Using cached enrichment for ${id}`, { cache: "hit", id });
+
+      return cached.enrichment;
+    }
+
+    this.logger.info(`Enriching ${id}`, { cache: "miss", id });
+
+    const response = await this.summarize({
+      sourceDocument: { ...document, pageContent: summary },
+      summarizationPrompt: this.enrichmentPrompt,
+      usage,
+    });
+    const { teaser, keywords, tags, difficulty } = parseJsonResponse<Enrichment>(response, enrichmentSchema);
+    const enrichment: Enrichment = {
+      teaser,
+      keywords,
+      tags,
+      difficulty,
+      readingTime: readingTime(document.pageContent),
+    };
 
-    if (fs.existsSync(summaryFileName)) {
-      return fs.readFileSync(summaryFileName, "utf8");
+    if (id) {
+      await this.withLock(async () =>
+        this.cacheStore.set(enrichmentKey, JSON.stringify({ fingerprint, enrichment }, null, 2))
+      );
     }
+
+    return enrichment;
   }
 
   /**
    * Indexes the provided source documents by generating summaries, adding them to a vector store,
    * and saving the state to a cache. Supports parallel execution.
    *
+   * Calls to the summary model and vector store that fail with a transient error (rate limits,
+   * timeouts, server errors) are retried with exponential backoff. If a document still fails,
+   * indexing stops and an `IndexError` is thrown, unless `continueOnError` is set, in which case the
+   * failure is recorded in the result and the remaining documents are indexed.
+   *
+   * The result also reports the tokens used by the summary and embeddings models, for the whole run
+   * and for each document, along with what they cost according to `pricing`. If `maxCost` is set, the
+   * cost of each document is estimated before it is indexed, and indexing stops once the next
+   * document would take the run over budget. The documents that were not indexed are listed in
+   * `skipped`.
+   *
    * @param {Object} params - The parameters for the index function.
    * @param {DocumentInput[]} params.sourceDocuments - An array of source documents to be indexed.
    * @param {number} [params.parallel=1] - The number of documents to process in parallel. Uses a pooling mechanism.
    * @param {string|Function} [params.summarizationPrompt] - Optional override to default summarizationPrompt
+   * @param {boolean} [params.continueOnError=false] - Keep indexing the remaining documents when one fails.
+   * @param {RetryOptions} [params.retry] - Optional override to the instance's retry options.
+   * @param {Function} [params.onProgress] - Optional callback that receives every event emitted while indexing.
+   * @param {number} [params.maxCost] - Optional budget in US dollars. Documents that would take the run over it are skipped.
+   * @param {boolean} [params.dryRun=false] - Return an `IndexPlan` of what indexing would do, without calling any models or writing anything.
+   * @param {boolean} [params.enrich] - Optional override to the instance's `enrich` setting.
+   * @param {string} [params.collection] - Optional name of the collection to index the documents into.
    *
-   * @returns {Promise<Document[]>} A promise that resolves to an array of summary documents.
+   * @returns {Promise<IndexResult>} A promise that resolves to the summary documents and the ids that were indexed, served from cache, or failed.
+   */
+  index(args: IndexArgs & { dryRun: true }): Promise<IndexPlan>;
+  index(args: IndexArgs): Promise<IndexResult>;
+  async index({ collection, ...args }: IndexArgs): Promise<IndexResult | IndexPlan> {
+    if (collection !== undefined) {
+      return this.collection(collection).index(args);
+    }
+
+    if (args.dryRun) {
+      return this.planIndex(args.sourceDocuments ?? this.sourceDocuments, args.summarizationPrompt);
+    }
+
+    return this.withLock(() => this.contentHasher.batch(() => this.indexDocuments(args)));
+  }
+
+  /**
+   * Does the work of `index`, while holding the lock on the cacheDir.
    */
-  async index({
+  private async indexDocuments({
     sourceDocuments = this.sourceDocuments,
     parallel,
     summarizationPrompt,
-  }: {
-    sourceDocuments?: DocumentInput[];
-    parallel?: number;
-    summarizationPrompt?: string | ((doc: DocumentInput) => string);
-  }) {
-    const summaryDocuments: Document[] = [];
+    continueOnError = false,
+    retry = this.retry,
+    onProgress,
+    maxCost,
+    enrich = this.enrich,
+  }: IndexArgs): Promise<IndexResult> {
+    const result: IndexResult = {
+      summaryDocuments: [],
+      indexed: [],
+      cached: [],
+      failed: [],
+      skipped: [],
+      usage: { total: emptyUsage(), documents: {} },
+    };
     let embeddingsAdded = 0;
+    let failure: unknown;
+    let overBudget = false;
+    let reservedCost = 0; // estimated cost of the documents currently being indexed
+
+    const progress = (): IndexProgress => ({
+      total: sourceDocuments.length,
+      completed: result.indexed.length + result.cached.length + result.failed.length,
+      indexed: result.indexed.length,
+      cached: result.cached.length,
+      failed: result.failed.length,
+    });
+
+    // Emits an event, and passes it on to the onProgress callback
+    const notify = <E extends keyof ReadNextEvents>(type: E, event: Omit<ReadNextEvents[E][0], "progress">) => {
+      const payload = {
+        ...event,
+        ...(this.collectionName ? { collection: this.collectionName } : {}),
+        progress: progress(),
+      } as ReadNextEvents[E][0];
+
+      (this.emit as (type: E, payload: ReadNextEvents[E][0]) => boolean)(type, payload);
+      onProgress?.({ type, ...payload } as ReadNextEvent);
+    };
+
+    const onRetry = (id?: string) => (error: any, attempt: number, delay: number) => {
+      this.logger.warn(`Attempt ${attempt} for ${id} failed (${error?.message ?? error}), retrying in ${delay}ms`, {
+        id,
+      });
+    };
 
     // Indexes a single document
-    const processDocument = async (doc: DocumentInput) => {
+    const processDocument = async (doc: DocumentInput, cached: boolean, usage: Usage) => {
       const sourceDocument = this.getSourceDocument(doc);
-      const summary = await this.getSummaryFor({ sourceDocument: doc, summarizationPrompt });
+      const { id } = sourceDocument;
+
+      notify("document:start", { id });
+      const summary = await withRetry(
+        () => this.getSummaryFor({ sourceDocument: doc, summarizationPrompt, usage }),
+        retry,
+        onRetry(id)
+      );
+      notify(cached ? "summary:cache-hit" : "summary:generated", { id, summary });
+
+      //enrichment is a nice-to-have, so a document that can't be enriched is still indexed
+      if (enrich) {
+        try {
+          await withRetry(() => this.getEnrichmentFor({ sourceDocument: doc, summary, usage }), retry, onRetry(id));
+        } catch (error) {
+          this.logger.warn(`Could not enrich ${id}: ${(error as Error)?.message ?? error}`, { id, error });
+        }
+      }
 
       const summaryDocument: Document = {
         pageContent: summary,
         metadata: {
+          ...sourceDocument.metadata,
           sourceDocumentId: sourceDocument.id,
         },
       };
@@ -263,7 +877,12 @@ export class ReadNext {
       } catch (e) {
         // ignore errors if the document doesn't already exist
       }
-      await this.vectorStore.addDocuments([summaryDocument], { ids: [sourceDocument.id] });
+      const [embedding] = await withRetry(() => this.embedSummaries([summary], usage), retry, onRetry(id));
+      await withRetry(
+        () => this.vectorStore.addVectors([embedding], [summaryDocument], { ids: [sourceDocument.id] }),
+        retry,
+        onRetry(sourceDocument.id)
+      );
       this.logger.info(`${sourceDocument.id} added to the vector store`, { id: sourceDocument.id });
 
       // Save to cache
@@ -277,16 +896,54 @@ export class ReadNext {
     let index = 0; // Track the index of the current document
 
     const processNext = async () => {
-      if (index >= sourceDocuments.length) {
+      // stop picking up new documents once one has failed, unless asked to carry on
+      if (index >= sourceDocuments.length || failure || overBudget) {
         return;
       }
 
       const currentDocument = sourceDocuments[index];
+      const sourceDocument = this.getSourceDocument(currentDocument);
+      const { id } = sourceDocument;
+      const cached = this.isSummaryCached(sourceDocument, summarizationPrompt);
+      const estimatedCost = this.estimateUsage(sourceDocument, cached, summarizationPrompt).cost;
+
+      if (maxCost !== undefined && result.usage.total.cost + reservedCost + estimatedCost > maxCost) {
+        this.logger.warn(`Indexing ${id} could take the cost over the budget of $${maxCost}, stopping`, { id });
+        overBudget = true;
+        return;
+      }
+
       index++;
-      const summaryDocument = await processDocument(currentDocument);
+      reservedCost += estimatedCost;
+      const usage = emptyUsage();
 
-      summaryDocuments.push(summaryDocument);
-      embeddingsAdded += 1;
+      try {
+        //without an id, a document's vector could never be replaced or removed, so it would be added again on every run
+        if (!id) {
+          throw new Error("Document has no id, so it can't be indexed");
+        }
+
+        const summaryDocument = await processDocument(currentDocument, cached, usage);
+
+        result.summaryDocuments.push(summaryDocument);
+        (cached ? result.cached : result.indexed).push(id);
+        embeddingsAdded += 1;
+        notify("embedding:added", { id });
+      } catch (error) {
+        this.logger.error(`Failed to index ${id}`, { id, error });
+        result.failed.push({ id, error });
+        notify("document:error", { id, error });
+
+        if (!continueOnError) {
+          failure = error;
+        }
+      }
+
+      reservedCost -= estimatedCost;
+      addUsage(result.usage.total, usage);
+      if (id) {
+        result.usage.documents[id] = usage;
+      }
 
       await processNext();
     };
@@ -299,120 +956,749 @@ export class ReadNext {
     // Wait for all tasks to complete
     await Promise.all(tasks);
 
+    if (overBudget) {
+      result.skipped = sourceDocuments.slice(index).map((doc) => this.getSourceDocument(doc).id!);
+    }
+
     if (embeddingsAdded > 0) {
-      // Save vector store if new embeddings were added
-      try {
-        // @ts-ignore
-        if (typeof this.vectorStore.save === "function") {
-          // @ts-ignore
-          await this.vectorStore.save(this.cacheDir);
-        }
-      } catch (e) {
-        this.logger.error("Error saving vector store", { error: e });
-      }
+      // Save vector store if new embeddings were added, so documents indexed before a failure are kept
+      await this.saveVectorStore();
     }
 
-    return summaryDocuments;
+    notify("index:complete", { result });
+
+    if (failure) {
+      throw new IndexError(result);
+    }
+
+    return result;
   }
 
   /**
-   * Generates a summary for the given source document. If the document has an ID and a fresh hash,
-   * it attempts to retrieve a cached summary from the filesystem. If no cached summary is found,
-   * it generates a new summary and caches it if the document has an ID. The content hash is updated
-   * and saved if it is not fresh.
-   *
-   * @param {Object} options - The input object containing the source document.
-   * @param {DocumentInput} options.sourceDocument - The document for which to generate a summary.
-   * @returns {Promise<string>} - A promise that resolves to the summary of the document.
+   * Returns true if there is a cached summary for the document that is still fresh, so indexing it
+   * won't call the summary model.
    */
-  async getSummaryFor({ sourceDocument, summarizationPrompt }: GetSummaryArgs): Promise<string> {
-    let summary: string | undefined = undefined;
-    sourceDocument = this.getSourceDocument(sourceDocument);
+  private isSummaryCached(sourceDocument: DocumentInput, summarizationPrompt?: SummarizationPrompt): boolean {
+    if (!sourceDocument.id || !this.cacheStore.get(`summaries/${sourceDocument.id}`)) {
+      return false;
+    }
 
-    const hasId = sourceDocument.id;
-    const hasFresh = this.contentHasher.hasFresh(sourceDocument);
+    return this.contentHasher.hasFresh(sourceDocument, this.getSummaryFingerprint(sourceDocument, summarizationPrompt));
+  }
+
+  /**
+   * Works out what indexing the documents would do, without calling any models or writing to any
+   * of the stores. Each document is classified as `unchanged` (its cached summary is fresh),
+   * `changed` (it has a summary, but its content, prompt or model has changed since), `new` (it
+   * has no summary) or `missing-id` (it can't be indexed, and would be listed in `failed`).
+   */
+  private planIndex(sourceDocuments: DocumentInput[], summarizationPrompt?: SummarizationPrompt): IndexPlan {
+    const plan: IndexPlan = {
+      documents: [],
+      counts: { unchanged: 0, changed: 0, new: 0, "missing-id": 0 },
+      summaries: 0,
+      embeddings: 0,
+      usage: emptyUsage(),
+    };
 
-    const summariesDir = path.join(this.cacheDir, "summaries");
-    const summaryFileName = path.join(summariesDir, `${sourceDocument.id}`);
+    for (const doc of sourceDocuments) {
+      const sourceDocument = this.getSourceDocument(doc);
+      const { id } = sourceDocument;
+      const cached = this.isSummaryCached(sourceDocument, summarizationPrompt);
+      let planned: PlannedDocument;
+
+      if (!id) {
+        planned = { id, status: "missing-id" };
+      } else if (cached) {
+        planned = { id, status: "unchanged" };
+      } else {
+        const fingerprint = this.getSummaryFingerprint(sourceDocument, summarizationPrompt);
+        const reason =
+          this.getSummaryById(id) === undefined ? "new" : this.contentHasher.staleReason(sourceDocument, fingerprint);
+
+        planned = !reason || reason === "new" ? { id, status: "new" } : { id, status: "changed", reason };
+      }
 
-    fs.mkdirSync(summariesDir, { recursive: true });
+      plan.documents.push(planned);
+      plan.counts[planned.status] += 1;
 
-    if (hasId) {
-      if (hasFresh) {
-        if (fs.existsSync(summaryFileName)) {
-          summary = fs.readFileSync(summaryFileName, "utf8");
-        }
+      if (!id) {
+        continue;
       }
-    } else {
-      this.logger.warn("No id found for document, summary will not be cached");
-    }
 
-    if (summary === undefined) {
-      this.logger.info(`No summary found for ${sourceDocument.id}, will generate a new one`, {
-        cache: "miss",
-        id: sourceDocument.id,
-      });
-      summary = await this.summarize({ sourceDocument, summarizationPrompt });
-    } else {
-      this.logger.info(`Using cached summary for ${sourceDocument.id}`, { cache: "hit", id: sourceDocument.id });
-    }
+      plan.summaries += cached ? 0 : 1;
+      plan.embeddings += cached && this.hasCachedEmbedding(this.getSummaryById(id)!) ? 0 : 1;
 
-    if (hasId) {
-      fs.mkdirSync(path.dirname(summaryFileName), { recursive: true });
-      fs.writeFileSync(summaryFileName, summary);
+      addUsage(plan.usage, this.estimateUsage(sourceDocument, cached, summarizationPrompt));
     }
 
-    //save the new content sha
-    if (!hasFresh) {
-      this.contentHasher.set(sourceDocument);
-      this.contentHasher.save();
+    return plan;
+  }
+
+  /**
+   * Estimates the tokens that indexing a document will use before it is indexed, from the length of
+   * its content (or of its cached summary, which only needs embedding).
+   */
+  private estimateUsage(
+    sourceDocument: DocumentInput,
+    cached: boolean,
+    summarizationPrompt: SummarizationPrompt = this.summarizationPrompt
+  ): Usage {
+    const usage = emptyUsage();
+
+    if (cached) {
+      const summary = this.getSummaryById(sourceDocument.id!) ?? "";
+
+      if (!this.hasCachedEmbedding(summary)) {
+        addTokens(usage, "embeddings", { inputTokens: estimateTokens(summary), outputTokens: 0 }, this.embeddingsPrice);
+      }
+    } else {
+      const prompt =
+        typeof summarizationPrompt === "string" ? summarizationPrompt : summarizationPrompt(sourceDocument);
+
+      addTokens(
+        usage,
+        "summary",
+        { inputTokens: estimateTokens(prompt + sourceDocument.pageContent), outputTokens: expectedSummaryTokens },
+        this.summaryPrice
+      );
+      addTokens(usage, "embeddings", { inputTokens: expectedSummaryTokens, outputTokens: 0 }, this.embeddingsPrice);
     }
 
-    return summary;
+    return usage;
   }
 
   /**
-   * Summarizes a source document, saving it to the cacheDir.
-   * @returns the summary of the source document
+   * Returns the cache key for the embedding of a summary, which depends on the summary's content and
+   * on the embeddings model.
    */
-  async summarize({ sourceDocument, summarizationPrompt = this.summarizationPrompt }: Summarize): Promise<string> {
-    const { pageContent } = sourceDocument;
+  private embeddingKey(summary: string): string {
+    return `embeddings/${embeddingsFingerprint(this.embeddingsModel)}/${hash(summary)}`;
+  }
 
-    const messages = [
-      new SystemMessage(
-        typeof summarizationPrompt === "string" ? summarizationPrompt : summarizationPrompt(sourceDocument)
-      ),
-      new HumanMessage(pageContent),
-    ];
+  private hasCachedEmbedding(summary: string): boolean {
+    return this.cacheStore.get(this.embeddingKey(summary)) !== undefined;
+  }
 
-    this.logger.info(`Generating summary for ${sourceDocument.id}`, { expensive: true, id: sourceDocument.id });
-    const summary = await this.summaryChain.invoke(messages);
-    this.logger.info("Summarization completed", { id: sourceDocument.id });
+  private getCachedEmbedding(summary: string): number[] | undefined {
+    const cached = this.cacheStore.get(this.embeddingKey(summary));
 
-    return summary;
+    return cached === undefined ? undefined : JSON.parse(cached);
   }
 
-  async prompt({ sourceDocuments = this.sourceDocuments, prompt, docId }: PromptArgs) {
-    //make sure the source documents are all indexed
-    await this.index({ sourceDocuments });
+  /**
+   * Embeds summaries with the embeddings model, caching each vector by the hash of the summary. A
+   * summary that has been embedded before is never sent to the model again, so the vector store
+   * can be rebuilt, or replaced with another one, without calling the embeddings provider.
+   *
+   * @param summaries - The summaries to embed.
+   * @param usage - Optional usage record to add the tokens sent to the embeddings model to.
+   * @returns The embedding of each summary.
+   */
+  async embedSummaries(summaries: string[], usage?: Usage): Promise<number[][]> {
+    const keys = summaries.map((summary) => this.embeddingKey(summary));
+    const embeddings = summaries.map((summary) => this.getCachedEmbedding(summary));
+
+    const missing = summaries.filter((_summary, i) => embeddings[i] === undefined);
+
+    if (missing.length > 0) {
+      this.logger.info(`Embedding ${missing.length} summaries`, { expensive: true });
+      const embedded = await this.embeddingsModel.embedDocuments(missing);
+
+      for (const [i, summary] of summaries.entries()) {
+        if (embeddings[i] === undefined) {
+          embeddings[i] = embedded.shift()!;
+          await this.withLock(async () => this.cacheStore.set(keys[i], JSON.stringify(embeddings[i])));
+
+          if (usage) {
+            addTokens(
+              usage,
+              "embeddings",
+              { inputTokens: estimateTokens(summary), outputTokens: 0 },
+              this.embeddingsPrice
+            );
+          }
+        }
+      }
+    } else if (summaries.length > 0) {
+      this.logger.info(`Using cached embeddings for ${summaries.length} summaries`, { cache: "hit" });
+    }
 
-    //get the summaries for these posts
+    return embeddings as number[][];
+  }
+
+  /**
+   * The price of the summary model, if it is in the price table.
+   */
+  get summaryPrice(): ModelPrice | undefined {
+    return this.pricing[getModelName(this.summaryModel) ?? ""];
+  }
+
+  /**
+   * The price of the embeddings model, if it is in the price table.
+   */
+  get embeddingsPrice(): ModelPrice | undefined {
+    return this.pricing[getModelName(this.embeddingsModel) ?? ""];
+  }
+
+  /**
+   * Removes every document that is not in `sourceDocuments` from the vector store, the summaries
+   * cache and the content hashes. The given documents are treated as the complete corpus, so
+   * anything that has been deleted or renamed since it was indexed stops being suggested.
+   *
+   * @param {Object} params - The parameters for the prune function.
+   * @param {DocumentInput[]} params.sourceDocuments - The complete set of documents that should be kept.
+   * @param {string} [params.collection] - Optional name of the collection to prune.
+   *
+   * @returns {Promise<PruneResult>} A promise that resolves to the ids that were removed from each store.
+   */
+  async prune({ sourceDocuments = this.sourceDocuments, collection }: PruneArgs = {}): Promise<PruneResult> {
+    if (collection !== undefined) {
+      return this.collection(collection).prune({ sourceDocuments });
+    }
+
+    return this.withLock(() => this.pruneDocuments(sourceDocuments));
+  }
+
+  /**
+   * Does the work of `prune`, while holding the lock on the cacheDir.
+   */
+  private async pruneDocuments(sourceDocuments: DocumentInput[]): Promise<PruneResult> {
+    const keep = new Set(sourceDocuments.map((doc) => this.getSourceDocument(doc).id));
+    const isStale = (id: string) => !keep.has(id);
+
+    const vectorStoreIds = await deleteFromVectorStore(
+      this.vectorStore,
+      getVectorStoreIds(this.vectorStore).filter(isStale)
+    );
+
+    const summaryIds = this.getSummaryIds().filter(isStale);
+    for (const id of summaryIds) {
+      this.cacheStore.delete(`summaries/${id}`);
+    }
+
+    for (const key of this.cacheStore.list("enrichments/")) {
+      if (isStale(key.slice("enrichments/".length))) {
+        this.cacheStore.delete(key);
+      }
+    }
+
+    const contentHashIds = [...this.contentHasher.records.keys()].filter(isStale);
+    for (const id of contentHashIds) {
+      this.contentHasher.delete(id);
+    }
+
+    const removed = [...new Set([...vectorStoreIds, ...summaryIds, ...contentHashIds])].sort();
+
+    if (contentHashIds.length > 0) {
+      this.contentHasher.save();
+    }
+
+    if (vectorStoreIds.length > 0) {
+      await this.saveVectorStore();
+    }
+
+    for (const id of removed) {
+      this.logger.info(`Pruned ${id}`, { id });
+    }
+
+    return {
+      removed,
+      vectorStore: vectorStoreIds,
+      summaries: summaryIds,
+      contentHashes: contentHashIds,
+    };
+  }
+
+  /**
+   * Cross-checks the vector store, the cached summaries and the content hashes, which can drift apart
+   * if a run is interrupted or the cacheDir is edited by hand. Reports documents that are only in
+   * some of the stores, vectors that were embedded from a different summary than the cached one,
+   * and vectors with a different number of dimensions to the embeddings model's (or, if nothing has
+   * been embedded with it yet, to most of the other vectors). Nothing is changed.
+   *
+   * @param {Object} [params] - The parameters for the verify function.
+   * @param {string} [params.collection] - Optional name of the collection to verify.
+   *
+   * @returns {Promise<VerifyResult>} A promise that resolves to everything that was found to be wrong.
+   */
+  async verify({ collection }: VerifyArgs = {}): Promise<VerifyResult> {
+    if (collection !== undefined) {
+      return this.collection(collection).verify();
+    }
+
+    const vectors = getStoredVectors(this.vectorStore);
+
+    if (!vectors) {
+      this.logger.warn("Unable to read vectors from this vector store, only checking summaries and content hashes");
+    }
+
+    const summaries = new Map(this.getSummaryIds().map((id) => [id, this.getSummaryById(id)!]));
+    const [cachedEmbedding] = this.cacheStore.list(`embeddings/${embeddingsFingerprint(this.embeddingsModel)}/`);
+    const dimension = cachedEmbedding
+      ? JSON.parse(this.cacheStore.get(cachedEmbedding)!).length
+      : mostCommonLength((vectors ?? []).map(({ embedding }) => embedding));
+
+    const result = checkConsistency({
+      vectors,
+      summaries,
+      hashes: new Set(this.contentHasher.records.keys()),
+      dimension,
+    });
+
+    for (const { id, message } of result.issues) {
+      this.logger.warn(message, { id });
+    }
+
+    this.logger.info(`Verified ${result.documents} documents, found ${result.issues.length} issues`);
+
+    return result;
+  }
+
+  /**
+   * Fixes what `verify` finds, using only what is already cached - the summary model is never
+   * called. Summaries missing from the cache are restored from the vector store, and vectors that
+   * are missing, stale or the wrong size are embedded again from the cached summaries (using the
+   * embedding cache where possible). Content hashes whose summary is lost entirely are removed, so
+   * the document is summarized again on the next `index`. Orphans and summaries without a content
+   * hash are left alone: `prune` removes the orphans, and `index` re-summarizes the rest.
+   *
+   * A FaissStore can only hold vectors of one size, so if the embeddings model's dimensions have
+   * changed it is rebuilt from scratch with every summary embedded again, leaving the orphans out.
+   *
+   * @param {Object} [params] - The parameters for the repair function.
+   * @param {string} [params.collection] - Optional name of the collection to repair.
+   *
+   * @returns {Promise<RepairResult>} A promise that resolves to the issues that were fixed, and those that remain.
+   */
+  async repair({ collection }: VerifyArgs = {}): Promise<RepairResult> {
+    if (collection !== undefined) {
+      return this.collection(collection).repair();
+    }
+
+    return this.withLock(async () => {
+      const { issues } = await this.verify();
+      const vectors = new Map((getStoredVectors(this.vectorStore) ?? []).map((vector) => [vector.id, vector]));
+      const orphans = new Set(issues.filter(({ type }) => type === "orphan-vector").map(({ id }) => id));
+      const repaired: ConsistencyIssue[] = [];
+      const reembed = new Set<string>();
+
+      for (const issue of issues) {
+        const { id, type } = issue;
+        const vector = vectors.get(id);
+
+        if (orphans.has(id)) {
+          continue;
+        } else if (type === "missing-summary" && vector) {
+          this.cacheStore.set(`summaries/${id}`, vector.pageContent);
+        } else if (type === "missing-summary") {
+          this.contentHasher.delete(id);
+        } else if (type === "missing-vector" || type === "stale-vector" || type === "dimension-mismatch") {
+          reembed.add(id);
+        } else {
+          continue;
+        }
+
+        repaired.push(issue);
+      }
+
+      this.contentHasher.save();
+
+      const rebuild =
+        this.vectorStore instanceof FaissStore && repaired.some(({ type }) => type === "dimension-mismatch");
+
+      if (rebuild) {
+        for (const id of vectors.keys()) {
+          if (!orphans.has(id)) {
+            reembed.add(id);
+          }
+        }
+      }
+
+      if (reembed.size > 0) {
+        const ids = [...reembed];
+        const summaries = ids.map((id) => this.getSummaryById(id) ?? vectors.get(id)!.pageContent);
+        const embeddings = await withRetry(() => this.embedSummaries(summaries), this.retry);
+
+        if (rebuild) {
+          this.logger.warn(`The embeddings model's dimensions have changed, so the vector store is being rebuilt`);
+          this.vectorStore = new FaissStore(this.embeddingsModel, {});
+        } else {
+          await deleteFromVectorStore(
+            this.vectorStore,
+            ids.filter((id) => vectors.has(id))
+          );
+        }
+
+        await withRetry(
+          () =>
+            this.vectorStore.addVectors(
+              embeddings,
+              ids.map((id, i) => ({
+                pageContent: summaries[i],
+                metadata: { ...vectors.get(id)?.metadata, sourceDocumentId: id },
+              })),
+              { ids }
+            ),
+          this.retry
+        );
+        await this.saveVectorStore();
+      }
+
+      this.logger.info(`Repaired ${repaired.length} of ${issues.length} issues`);
+
+      return { repaired, remaining: (await this.verify()).issues };
+    });
+  }
+
+  /**
+   * Returns the ids of all documents that have a cached summary.
+   */
+  getSummaryIds(): string[] {
+    return this.cacheStore.list("summaries/").map((key) => key.slice("summaries/".length));
+  }
+
+  /**
+   * Turns vector store search results into related documents, dropping excluded ids and anything
+   * that doesn't match the metadata filter.
+   */
+  private toRelatedDocuments(
+    results: [Document, number][],
+    { exclude, filter, includeSummary = false, minScore = 0 }: RelatedDocumentsArgs
+  ): RelatedDocument[] {
+    return results
+      .filter(([{ metadata }]) => !exclude.has(metadata.sourceDocumentId) && matchesFilter(metadata, filter))
+      .map(([{ pageContent, metadata }, score]) => ({
+        sourceDocumentId: metadata.sourceDocumentId,
+        score,
+        relevance: this.toRelevance(score),
+        metadata,
+        ...(includeSummary ? { summary: pageContent } : {}),
+      }))
+      .filter(({ relevance }) => relevance >= minScore);
+  }
+
+  /**
+   * Adds each enriched document's enrichment to its metadata. Only the final suggestions are looked
+   * up, rather than every candidate considered on the way to them.
+   */
+  private withEnrichment(related: RelatedDocument[]): RelatedDocument[] {
+    return related.map((doc) => {
+      const enrichment = this.getEnrichmentById(doc.sourceDocumentId);
+
+      return enrichment ? { ...doc, metadata: { ...doc.metadata, enrichment } } : doc;
+    });
+  }
+
+  /**
+   * Converts a raw score from the vector store into a relevance from 0 to 1, where higher is better.
+   */
+  private toRelevance(score: number): number {
+    return toSimilarity(this.vectorStore, score, this.scoreType);
+  }
+
+  /**
+   * Saves the vector store to the cacheDir, if it supports saving.
+   */
+  private async saveVectorStore() {
+    try {
+      // @ts-ignore
+      if (typeof this.vectorStore.save === "function") {
+        // @ts-ignore
+        await this.vectorStore.save(this.cacheDir);
+        this.vectorStoreModified = this.getVectorStoreModified();
+      }
+    } catch (e) {
+      this.logger.error("Error saving vector store", { error: e });
+    }
+  }
+
+  /**
+   * Generates a summary for the given source document. If the document has an ID and a fresh hash,
+   * it attempts to retrieve a cached summary from the cacheStore. If no cached summary is found,
+   * it generates a new summary and caches it if the document has an ID. A hash is only fresh if the
+   * content, the summarization prompt and the summary model are all unchanged since the cached
+   * summary was generated. The content hash is updated and saved if it is not fresh.
+   *
+   * Suggesting, enriching and prompting only read summaries, so they pass `reuseCached` to use the
+   * cached summary whenever the content is unchanged - whatever prompt `index` was called with.
+   * Only `index` regenerates summaries when the prompt or model has changed.
+   *
+   * @param {Object} options - The input object containing the source document.
+   * @param {DocumentInput} options.sourceDocument - The document for which to generate a summary.
+   * @param {boolean} [options.reuseCached=false] - Use the cached summary if the content is unchanged, even if the prompt or model has changed.
+   * @returns {Promise<string>} - A promise that resolves to the summary of the document.
+   */
+  async getSummaryFor({
+    sourceDocument,
+    summarizationPrompt,
+    usage,
+    reuseCached = false,
+  }: GetSummaryArgs): Promise<string> {
+    let summary: string | undefined = undefined;
+    sourceDocument = this.getSourceDocument(sourceDocument);
+
+    const hasId = sourceDocument.id;
+    const fingerprint = this.getSummaryFingerprint(sourceDocument, summarizationPrompt);
+    const hasFresh = this.contentHasher.hasFresh(sourceDocument, reuseCached ? undefined : fingerprint);
+
+    const summaryKey = `summaries/${sourceDocument.id}`;
+
+    if (hasId) {
+      if (hasFresh) {
+        summary = this.cacheStore.get(summaryKey);
+      }
+    } else {
+      this.logger.warn("No id found for document, summary will not be cached");
+    }
+
+    const generated = summary === undefined;
+
+    if (summary === undefined) {
+      const reason = hasFresh ? "new" : this.contentHasher.staleReason(sourceDocument, fingerprint);
+
+      this.logger.info(staleSummaryMessages[reason || "new"](sourceDocument.id), {
+        cache: "miss",
+        id: sourceDocument.id,
+      });
+      summary =
+        sourceDocument.pageContent.length > this.chunking.maxLength
+          ? await this.summarizeInChunks({ sourceDocument, summarizationPrompt, usage })
+          : await this.summarize({ sourceDocument, summarizationPrompt, usage });
+    } else {
+      this.logger.info(`Using cached summary for ${sourceDocument.id}`, { cache: "hit", id: sourceDocument.id });
+    }
+
+    //save the new content sha. Summaries cached before fingerprints were recorded adopt the current one
+    const record = !hasFresh || (!reuseCached && !this.contentHasher.fingerprints.has(sourceDocument.id!));
+
+    //a cached summary that needs nothing recorded is only read, so it doesn't wait for the lock
+    if (hasId && (generated || record)) {
+      const document = sourceDocument;
+      const result = summary;
+
+      await this.withLock(async () => {
+        if (generated) {
+          this.cacheStore.set(summaryKey, result);
+        }
+
+        if (record) {
+          this.contentHasher.set(document);
+          this.contentHasher.setFingerprint(document.id!, fingerprint);
+          this.contentHasher.save();
+        }
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Fingerprints the summarization prompt (as evaluated for the given document) and the summary
+   * model, so that cached summaries are regenerated when either changes. Documents long enough to
+   * be summarized in chunks also include the chunking settings in their prompt fingerprint.
+   *
+   * @param sourceDocument - The document that would be summarized.
+   * @param summarizationPrompt - Optional override to the default summarizationPrompt.
+   * @returns The fingerprint of the prompt and model.
+   */
+  getSummaryFingerprint(
+    sourceDocument: DocumentInput,
+    summarizationPrompt: SummarizationPrompt = this.summarizationPrompt
+  ): SummaryFingerprint {
+    const prompt = typeof summarizationPrompt === "string" ? summarizationPrompt : summarizationPrompt(sourceDocument);
+
+    return {
+      prompt: hash(
+        sourceDocument.pageContent.length > this.chunking.maxLength
+          ? stableStringify({ prompt, chunking: this.chunking })
+          : prompt
+      ),
+      model: modelFingerprint(this.summaryModel),
+    };
+  }
+
+  /**
+   * Summarizes a source document, saving it to the cacheDir.
+   * @returns the summary of the source document
+   */
+  async summarize({
+    sourceDocument,
+    summarizationPrompt = this.summarizationPrompt,
+    usage,
+  }: Summarize): Promise<string> {
+    const { pageContent } = sourceDocument;
+
+    const messages = [
+      new SystemMessage(
+        typeof summarizationPrompt === "string" ? summarizationPrompt : summarizationPrompt(sourceDocument)
+      ),
+      new HumanMessage(pageContent),
+    ];
+
+    this.logger.info(`Generating summary for ${sourceDocument.id}`, { expensive: true, id: sourceDocument.id });
+    let reported: TokenUsage | undefined;
+    const summary = await this.summaryChain.invoke(messages, {
+      callbacks: [
+        {
+          handleLLMEnd: (output) => {
+            reported = readTokenUsage(output);
+          },
+        },
+      ],
+    });
+    this.logger.info("Summarization completed", { id: sourceDocument.id });
+
+    if (usage) {
+      //not every provider reports token usage, so estimate it from the text if it wasn't reported
+      const tokens = reported ?? {
+        inputTokens: estimateTokens(messages.map((message) => message.content).join("\n")),
+        outputTokens: estimateTokens(summary),
+      };
+
+      addTokens(usage, "summary", tokens, this.summaryPrice);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Summarizes a document that is too long to send to the summary model in one go. The document is
+   * split into chunks, each chunk is summarized, and the chunk summaries are combined into a single
+   * summary. Chunk summaries are cached by the hash of the chunk's content, so editing one section
+   * of a long document only re-summarizes the chunks that changed.
+   *
+   * @returns the summary of the source document
+   */
+  async summarizeInChunks({
+    sourceDocument,
+    summarizationPrompt = this.summarizationPrompt,
+    usage,
+  }: Summarize): Promise<string> {
+    const { maxLength, chunkSize, chunkOverlap, chunkPrompt, combinePrompt } = this.chunking;
+    const { id } = sourceDocument;
+
+    const splitter = new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap });
+    const chunks = await splitter.splitText(sourceDocument.pageContent);
+
+    this.logger.info(`${id} is too long to summarize in one go, splitting it into ${chunks.length} chunks`, { id });
+
+    const chunkSummaries: string[] = [];
+
+    for (const [i, chunk] of chunks.entries()) {
+      const chunkKey = `chunks/${hash(stableStringify([chunk, chunkPrompt, modelFingerprint(this.summaryModel)]))}`;
+      const cachedChunkSummary = this.cacheStore.get(chunkKey);
+
+      if (cachedChunkSummary !== undefined) {
+        this.logger.info(`Using cached summary for chunk ${i + 1} of ${id}`, { cache: "hit", id });
+        chunkSummaries.push(cachedChunkSummary);
+      } else {
+        this.logger.info(`Summarizing chunk ${i + 1} of ${id}`, { cache: "miss", id });
+        const chunkSummary = await this.summarize({
+          sourceDocument: { ...sourceDocument, pageContent: chunk },
+          summarizationPrompt: chunkPrompt,
+          usage,
+        });
+
+        await this.withLock(async () => this.cacheStore.set(chunkKey, chunkSummary));
+        chunkSummaries.push(chunkSummary);
+      }
+    }
+
+    const combined: DocumentInput = { ...sourceDocument, pageContent: chunkSummaries.join("\n\n") };
+    const prompt = typeof summarizationPrompt === "string" ? summarizationPrompt : summarizationPrompt(sourceDocument);
+
+    //the chunk summaries can themselves be too long for very long documents, so keep reducing until they fit
+    if (combined.pageContent.length > maxLength && combined.pageContent.length < sourceDocument.pageContent.length) {
+      return this.summarizeInChunks({ sourceDocument: combined, summarizationPrompt: prompt, usage });
+    }
+
+    return this.summarize({
+      sourceDocument: combined,
+      summarizationPrompt: `${prompt}\n\n${combinePrompt}`,
+      usage,
+    });
+  }
+
+  /**
+   * Indexes the source documents, then sends a prompt built from their summaries to the summary model.
+   * Responses are cached under the `docId` and a hash of the message, the summaries and the summary
+   * model, so the model is only prompted again when one of them changes.
+   *
+   * @param {Object} params - The parameters for the prompt function.
+   * @param {Array} [params.sourceDocuments] - The documents to index and pass to the prompt.
+   * @param {string|Function} params.prompt - The prompt, or a function that builds it from the documents and their summaries.
+   * @param {string} [params.docId] - Optional id used when logging and caching the prompt.
+   * @param {boolean} [params.withUsage=false] - Return the response along with the tokens used and their cost.
+   * @param {ResponseSchema} [params.schema] - Parse the response as JSON and check it against this JSON Schema or parser (such as a zod schema).
+   * @param {boolean} [params.cache=true] - Whether to use and save a cached response.
+   *
+   * @returns {Promise<string|Object|PromptResult>} The response, or the response and usage if `withUsage` is set.
+   * @throws {SchemaValidationError} If there is a schema, and the response doesn't match it.
+   */
+  prompt<T>(args: PromptArgs & { schema: ResponseSchema<T>; withUsage: true }): Promise<PromptResult<T>>;
+  prompt<T>(args: PromptArgs & { schema: ResponseSchema<T> }): Promise<T>;
+  prompt(args: PromptArgs & { withUsage: true }): Promise<PromptResult>;
+  prompt(args: PromptArgs): Promise<string>;
+  async prompt({
+    sourceDocuments = this.sourceDocuments,
+    prompt,
+    docId,
+    withUsage = false,
+    schema,
+    cache = true,
+  }: PromptArgs): Promise<unknown> {
+    //make sure the source documents are all indexed
+    const usage = emptyUsage();
+    addUsage(usage, (await this.index({ sourceDocuments })).usage.total);
+
+    //get the summaries for these posts
     const summaries = await Promise.all(
-      sourceDocuments.map(async (sourceDocument) => this.getSummaryFor({ sourceDocument }))
+      sourceDocuments.map(async (sourceDocument) => this.getSummaryFor({ sourceDocument, reuseCached: true }))
     );
 
     const message =
       typeof prompt === "string" ? prompt : prompt(sourceDocuments?.map(this.getSourceDocument), summaries);
 
-    this.logger.info("invoking prompt");
+    const promptHash = hash(stableStringify([message, summaries, modelFingerprint(this.summaryModel)]));
+    const promptKey = docId === undefined ? `prompts/${promptHash}` : `prompts/${docId}/${promptHash}`;
+    const parse = (text: string) => (schema ? parseJsonResponse(text, schema) : text);
+    const result = (response: unknown) => (withUsage ? { response, usage } : response);
+
+    const cached = cache ? this.cacheStore.get(promptKey) : undefined;
+
+    if (cached !== undefined) {
+      try {
+        const response = parse(cached);
+        this.logger.info(`Using cached response for prompt ${docId ?? promptHash}`, { cache: "hit", id: docId });
+
+        return result(response);
+      } catch (e) {
+        if (!(e instanceof SchemaValidationError)) {
+          throw e;
+        }
+
+        this.logger.info(`Cached response for prompt ${docId ?? promptHash} no longer matches the schema`);
+      }
+    }
+
+    this.logger.info("invoking prompt", { cache: "miss", id: docId });
     const summary = await this.summarize({
       sourceDocument: { pageContent: message, id: docId },
       summarizationPrompt: message,
+      usage,
     });
 
     this.logger.info("prompt response received");
 
-    return summary;
+    //only cache responses that parse, so an invalid one is asked for again next time
+    const response = parse(summary);
+
+    if (cache) {
+      await this.withLock(async () => this.cacheStore.set(promptKey, summary));
+    }
+
+    return result(response);
   }
 
   /**
@@ -421,22 +1707,618 @@ export class ReadNext {
    * @param {Object} params - The parameters for the suggestion.
    * @param {Object} params.sourceDocument - The source document to base suggestions on.
    * @param {number} [params.limit=1] - The maximum number of suggestions to return.
+   * @param {Array} [params.ignore] - Documents (or document ids) that should never be suggested, e.g. ones the reader has already seen.
+   * @param {MetadataFilter} [params.filter] - Only suggest documents whose metadata matches this object or predicate.
+   * @param {boolean} [params.includeSummary=false] - Whether to include each related document's summary.
+   * @param {RankingOptions} [params.ranking] - Re-rank the nearest neighbours by a weighted combination of vector similarity and metadata signals such as tags and recency.
+   * @param {number} [params.diversity=0] - From 0 to 1, how much to favour suggestions that are unlike the ones already chosen over ones that are the most relevant.
+   * @param {number} [params.minScore=0] - Drop suggestions whose relevance (from 0 to 1) is below this, even if that leaves fewer than limit.
+   * @param {boolean} [params.explain=false] - Whether to explain, in a sentence, why each related document is suggested. Explanations are cached until either document changes.
+   * @param {string} [params.collection] - Optional name of the collection to suggest documents from.
+   * @param {string} [params.from] - Optional name of the collection the source document belongs to, if suggesting from other collections.
+   * @param {string|string[]} [params.to] - Optional name of the collection (or collections) to suggest documents from, each of which gets up to `limit` suggestions.
    * @returns {Promise<Suggestions>} A promise that resolves to an object containing the source document ID and an array of related document suggestions with their scores.
    */
-  async suggest({ sourceDocument, limit = 1 }: Suggest): Promise<Suggestions> {
-    this.logger.info(`Getting suggestion for ${sourceDocument.id}`, { id: sourceDocument.id });
-    const summary = await this.getSummaryFor({ sourceDocument });
-    const results = await this.vectorStore.similaritySearchWithScore(summary, limit + 1);
+  async suggest({ collection, from = collection, to, ...args }: Suggest): Promise<Suggestions> {
+    if (to !== undefined) {
+      return this.suggestAcross(from, Array.isArray(to) ? to : [to], args);
+    }
 
-    const related = results
-      .filter(([doc]) => doc.metadata.sourceDocumentId !== sourceDocument.id)
-      .map(([{ metadata }, score]) => ({ sourceDocumentId: metadata.sourceDocumentId, score, metadata }));
+    if (from !== undefined) {
+      return this.collection(from).suggest(args);
+    }
+
+    const {
+      sourceDocument,
+      limit = 1,
+      ignore = [],
+      filter,
+      includeSummary = false,
+      ranking,
+      diversity = 0,
+      minScore = 0,
+      explain = false,
+    } = args;
+    const { id, metadata = {} } = this.getSourceDocument(sourceDocument);
+
+    this.logger.info(`Getting suggestion for ${id}`, { id });
+    const summary = await this.getSummaryFor({ sourceDocument, reuseCached: true });
+
+    const exclude = this.getExclusions(id, ignore);
+
+    const related = await this.relatedTo(summary, {
+      id,
+      metadata,
+      exclude,
+      limit,
+      filter,
+      includeSummary,
+      ranking,
+      diversity,
+      minScore,
+    });
 
     return {
-      id: sourceDocument.id,
-      related: related.slice(0, limit + 1),
+      id,
+      related: explain ? await this.explainSuggestions({ id, summary }, related) : related,
     };
   }
+
+  /**
+   * Suggests documents from one or more target collections for a source document in another. The
+   * source's summary is looked up (or generated) in its own collection, then compared with each
+   * target's documents. Each target gets up to `limit` suggestions, which are returned grouped by
+   * collection in `byCollection`, and interleaved in `related` - the best of each target first, then
+   * the second best, and so on - so the top of the list covers every target.
+   */
+  private async suggestAcross(
+    from: string | undefined,
+    to: string[],
+    {
+      sourceDocument,
+      limit = 1,
+      ignore = [],
+      filter,
+      includeSummary = false,
+      ranking,
+      diversity = 0,
+      minScore = 0,
+      explain = false,
+    }: Omit<Suggest, "collection" | "from" | "to">
+  ): Promise<Suggestions> {
+    const source = from === undefined ? this : this.collection(from);
+    const { id, metadata = {} } = source.getSourceDocument(sourceDocument);
+
+    this.logger.info(`Getting suggestions for ${id} from ${to.join(", ")}`, { id });
+    const summary = await source.getSummaryFor({ sourceDocument, reuseCached: true });
+
+    const byCollection: Record<string, RelatedDocument[]> = {};
+
+    for (const name of to) {
+      const target = this.collection(name);
+
+      //documents in other collections can share the source document's id without being the same document
+      const ownId = name === from ? id : undefined;
+      const exclude = target.getExclusions(ownId, ignore);
+      const related = await target.relatedTo(summary, {
+        id: ownId,
+        metadata,
+        exclude,
+        limit,
+        filter,
+        includeSummary,
+        ranking,
+        diversity,
+        minScore,
+      });
+
+      const explained = explain
+        ? await target.explainSuggestions({ id, summary, contentHash: source.contentHasher.records.get(id!) }, related)
+        : related;
+
+      byCollection[name] = explained.map((doc) => ({ ...doc, collection: name }));
+    }
+
+    const related: RelatedDocument[] = [];
+
+    for (let i = 0; i < limit; i++) {
+      for (const name of to) {
+        if (byCollection[name][i]) {
+          related.push(byCollection[name][i]);
+        }
+      }
+    }
+
+    return { id, related, byCollection };
+  }
+
+  /**
+   * Adds a one-sentence explanation of why each related document is suggested for the source,
+   * generated by the summary model from the two summaries. Explanations are cached under the content
+   * hashes of both documents (along with the explanation prompt and summary model), so they are only
+   * regenerated when either document changes.
+   */
+  private async explainSuggestions(
+    source: { id?: string; summary: string; contentHash?: string },
+    related: RelatedDocument[]
+  ): Promise<RelatedDocument[]> {
+    const sourceHash = source.contentHash ?? this.contentHasher.records.get(source.id!) ?? hash(source.summary);
+    const explained: RelatedDocument[] = [];
+
+    for (const doc of related) {
+      const relatedId = doc.sourceDocumentId;
+      const relatedSummary = doc.summary ?? this.getSummaryById(relatedId);
+
+      if (relatedSummary === undefined) {
+        explained.push(doc);
+        continue;
+      }
+
+      const relatedHash = this.contentHasher.records.get(relatedId) ?? hash(relatedSummary);
+      const explanationKey = `explanations/${hash(
+        stableStringify([sourceHash, relatedHash, this.explanationPrompt, modelFingerprint(this.summaryModel)])
+      )}`;
+      let explanation = this.cacheStore.get(explanationKey);
+
+      if (explanation !== undefined) {
+        this.logger.info(`Using cached explanation for ${source.id} -> ${relatedId}`, { cache: "hit", id: relatedId });
+      } else {
+        this.logger.info(`Explaining why ${relatedId} is suggested for ${source.id}`, { cache: "miss", id: relatedId });
+
+        explanation = await withRetry(
+          () =>
+            this.summarize({
+              sourceDocument: {
+                id: `${source.id} -> ${relatedId}`,
+                pageContent: `Article being read:\n${source.summary}\n\nSuggested article:\n${relatedSummary}`,
+              },
+              summarizationPrompt: this.explanationPrompt,
+            }),
+          this.retry
+        );
+
+        await this.withLock(async () => this.cacheStore.set(explanationKey, explanation!));
+      }
+
+      explained.push({ ...doc, explanation });
+    }
+
+    return explained;
+  }
+
+  /**
+   * Returns up to `limit` documents related to a summary, optionally re-ranked and diversified.
+   */
+  private async relatedTo(
+    summary: string,
+    { id, metadata, exclude, limit, filter, includeSummary, ranking, diversity, minScore }: RelatedToArgs
+  ): Promise<RelatedDocument[]> {
+    //when re-ranking, widen the pool of nearest neighbours so the other signals can promote documents into the top results
+    const candidates = ranking || diversity > 0 ? Math.max(limit, ranking?.candidates ?? limit * 5) : limit;
+
+    //the summary's embedding is usually cached from indexing, so the embeddings model isn't called again
+    const [embedding] = await this.embedSummaries([summary]);
+    let related = await this.nearestNeighbours(embedding, candidates, { exclude, filter, includeSummary, minScore });
+
+    if (ranking) {
+      const now = new Date();
+
+      related = related
+        .map((doc) => ({
+          ...doc,
+          ranking: rank({ source: metadata, candidate: doc.metadata, similarity: doc.relevance, now }, ranking),
+        }))
+        .sort((a, b) => b.ranking.score - a.ranking.score);
+    }
+
+    if (diversity > 0) {
+      related = await this.diversify(related, { id, summary, diversity, limit });
+    }
+
+    return this.withEnrichment(related.slice(0, limit));
+  }
+
+  /**
+   * Suggests what to read next from everything a reader has read, rather than the single document
+   * they are reading, e.g. for a personalised sidebar. Documents that have been read are never
+   * suggested. Each read counts according to its `weight`, halved for every `halfLifeDays` since
+   * its `readAt` date, and the reads are combined using one of two strategies:
+   *
+   * - `centroid` - searches once, with the weighted average of the read documents' embeddings
+   * - `rrf` - searches once per read document, and merges the results with reciprocal rank fusion,
+   *   which keeps suggestions for each of the reader's interests rather than what lies between them
+   *
+   * Read documents that have no summary are ignored.
+   *
+   * @param {Object} params - The parameters for the suggestions.
+   * @param {HistoryItem[]} params.history - The documents the reader has read, each with an optional weight and read date.
+   * @param {number} [params.limit=5] - The maximum number of suggestions to return.
+   * @param {string} [params.strategy="centroid"] - How to combine the reads: `centroid` or `rrf`.
+   * @param {number} [params.halfLifeDays=30] - How many days it takes for a read to count half as much.
+   * @param {Array} [params.ignore] - Other documents (or document ids) that should never be suggested.
+   * @param {MetadataFilter} [params.filter] - Only suggest documents whose metadata matches this object or predicate.
+   * @param {boolean} [params.includeSummary=false] - Whether to include each related document's summary.
+   * @param {number} [params.minScore=0] - Drop suggestions whose relevance (from 0 to 1) is below this.
+   * @param {string} [params.collection] - Optional name of the collection the history and suggestions belong to.
+   * @returns {Promise<Suggestions>} A promise that resolves to the suggestions, best first.
+   */
+  async suggestForHistory({ collection, ...args }: SuggestForHistory): Promise<Suggestions> {
+    if (collection !== undefined) {
+      return this.collection(collection).suggestForHistory(args);
+    }
+
+    const {
+      history,
+      limit = 5,
+      strategy = "centroid",
+      halfLifeDays = 30,
+      ignore = [],
+      filter,
+      includeSummary = false,
+      minScore = 0,
+    } = args;
+
+    const exclude = this.getExclusions(undefined, [...history.map(({ id }) => id), ...ignore]);
+    const reads = history.filter(({ id }) => {
+      const summarized = this.getSummaryById(id) !== undefined;
+
+      if (!summarized) {
+        this.logger.warn(`No summary found for ${id}, leaving it out of the history`, { id });
+      }
+
+      return summarized;
+    });
+
+    if (reads.length === 0) {
+      return { related: [] };
+    }
+
+    this.logger.info(`Getting suggestions for a history of ${reads.length} documents`);
+
+    const weights = historyWeights(reads, halfLifeDays);
+    const embeddings = await this.getEmbeddings(reads.map(({ id }) => ({ id, text: this.getSummaryById(id) })));
+    const relatedArgs = { exclude, filter, includeSummary, minScore };
+
+    if (strategy === "centroid") {
+      const related = await this.nearestNeighbours(weightedCentroid(embeddings, weights), limit, relatedArgs);
+
+      return { related: this.withEnrichment(related.slice(0, limit)) };
+    }
+
+    //rrf: each read gets its own search, and documents that rank well for several reads rise to the top
+    const rankings = await Promise.all(
+      embeddings.map((embedding) => this.nearestNeighbours(embedding, limit * 2, relatedArgs))
+    );
+
+    //a document found by several searches keeps its most relevant match
+    const best = new Map<string, RelatedDocument>();
+
+    for (const doc of rankings.flat()) {
+      if ((best.get(doc.sourceDocumentId)?.relevance ?? -1) < doc.relevance) {
+        best.set(doc.sourceDocumentId, doc);
+      }
+    }
+
+    const fused = reciprocalRankFusion(
+      rankings.map((related) => related.map((doc) => doc.sourceDocumentId)),
+      weights
+    );
+
+    return { related: this.withEnrichment(fused.slice(0, limit).map(([id]) => best.get(id)!)) };
+  }
+
+  /**
+   * Searches the index for documents related to a free-text query, or to a document that hasn't
+   * been indexed, such as a draft. Nothing is written to the cache: the document's summary (if
+   * `summarize` is set) is generated on the fly and thrown away afterwards.
+   *
+   * @param {Object} params - The parameters for the search.
+   * @param {string} [params.query] - The text to search for.
+   * @param {Object} [params.document] - A document to find related documents for, instead of a query.
+   * @param {boolean} [params.summarize=false] - Summarize the document before searching, so it is compared like-for-like with the indexed summaries.
+   * @param {string|Function} [params.summarizationPrompt] - Optional override to default summarizationPrompt.
+   * @param {number} [params.limit=5] - The maximum number of results to return.
+   * @param {Array} [params.ignore] - Documents (or document ids) that should never be returned.
+   * @param {MetadataFilter} [params.filter] - Only return documents whose metadata matches this object or predicate.
+   * @param {boolean} [params.includeSummary=false] - Whether to include each result's summary.
+   * @param {number} [params.minScore=0] - Drop results whose relevance (from 0 to 1) is below this.
+   * @param {string} [params.collection] - Optional name of the collection to search.
+   * @returns {Promise<Suggestions>} A promise that resolves to the document's id (if it has one) and the related documents.
+   */
+  async search({ collection, ...args }: Search): Promise<Suggestions> {
+    if (collection !== undefined) {
+      return this.collection(collection).search(args);
+    }
+
+    const {
+      query,
+      document,
+      summarize = false,
+      summarizationPrompt,
+      limit = 5,
+      ignore = [],
+      filter,
+      includeSummary = false,
+      minScore = 0,
+    } = args;
+
+    if (query === undefined && document === undefined) {
+      throw new Error("search requires a query or a document");
+    }
+
+    let text = query;
+    let id: string | undefined;
+
+    if (document !== undefined) {
+      const sourceDocument = this.getSourceDocument(document);
+      id = sourceDocument.id;
+
+      text = summarize ? await this.summarize({ sourceDocument, summarizationPrompt }) : sourceDocument.pageContent;
+    }
+
+    this.logger.info(`Searching for ${id ?? JSON.stringify(query)}`, { id });
+
+    //search queries aren't summaries, so they are only looked up in the embedding cache, never added to it
+    const embedding = this.getCachedEmbedding(text!) ?? (await this.embeddingsModel.embedQuery(text!));
+    const exclude = this.getExclusions(id, ignore);
+    const related = await this.nearestNeighbours(embedding, limit, { exclude, filter, includeSummary, minScore });
+
+    return {
+      id,
+      related: this.withEnrichment(related.slice(0, limit)),
+    };
+  }
+
+  /**
+   * Returns the ids that should never be suggested: the source document's own id, and any ignored documents.
+   */
+  private getExclusions(id: string | undefined, ignore: (DocumentInput | string)[]): Set<string | undefined> {
+    return new Set([id, ...ignore.map((doc) => (typeof doc === "string" ? doc : this.getSourceDocument(doc).id))]);
+  }
+
+  /**
+   * Returns at least `candidates` related documents for the given embedding, if the index
+   * has that many. Keeps asking the vector store for more until enough survive the exclusions,
+   * filter and minScore, or the index runs out.
+   */
+  private async nearestNeighbours(
+    embedding: number[],
+    candidates: number,
+    args: RelatedDocumentsArgs
+  ): Promise<RelatedDocument[]> {
+    const { exclude, minScore = 0 } = args;
+    let k = candidates + exclude.size;
+
+    while (true) {
+      const results = await this.vectorStore.similaritySearchVectorWithScore(embedding, k);
+      const related = this.toRelatedDocuments(results, args);
+
+      //results come back best first, so once they drop below minScore, asking for more won't help
+      const exhausted = results.length < k || this.toRelevance(results[results.length - 1][1]) < minScore;
+
+      if (related.length >= candidates || exhausted) {
+        return related;
+      }
+
+      k *= 2;
+    }
+  }
+
+  /**
+   * Re-orders suggestions with maximal marginal relevance, so that near-duplicates of suggestions
+   * that have already been picked (such as the other parts of a series) are pushed down the list.
+   * Relevance is the ranking score if the suggestions were ranked, and the cosine similarity of the
+   * summaries otherwise. Uses the stored summary embeddings, so it works with any vector store.
+   */
+  private async diversify(
+    related: RelatedDocument[],
+    { id, summary, diversity, limit }: { id?: string; summary: string; diversity: number; limit: number }
+  ): Promise<RelatedDocument[]> {
+    const [source, ...embeddings] = await this.getEmbeddings([
+      { id, text: summary },
+      ...related.map((doc) => ({
+        id: doc.sourceDocumentId,
+        text: doc.summary ?? this.getSummaryById(doc.sourceDocumentId),
+      })),
+    ]);
+
+    const selected = maximalMarginalRelevance(
+      related.map((doc, i) => ({
+        relevance: doc.ranking?.score ?? cosineSimilarity(source, embeddings[i]),
+        embedding: embeddings[i],
+      })),
+      diversity,
+      limit
+    );
+
+    return selected.map((i) => related[i]);
+  }
+
+  /**
+   * Returns the summary embeddings for the given documents. Embeddings are read from the embedding
+   * cache where possible, then from the vector store, and anything else is embedded from its text.
+   * Reading a FaissStore means serializing its whole index, so it is only read for summaries that
+   * were embedded before the embedding cache existed.
+   */
+  private async getEmbeddings(docs: { id?: string; text?: string }[]): Promise<number[][]> {
+    const cached = docs.map(({ text }) => (text === undefined ? undefined : this.getCachedEmbedding(text)));
+    const uncached = docs.filter((_doc, i) => cached[i] === undefined);
+    const vectors = uncached.some(({ id }) => id !== undefined) ? getStoredVectors(this.vectorStore) : [];
+    const stored = new Map((vectors ?? []).map((vector) => [vector.id, vector.embedding]));
+    const missing = uncached.filter((doc) => doc.id === undefined || !stored.has(doc.id));
+    const embedded = missing.length > 0 ? await this.embedSummaries(missing.map((doc) => doc.text ?? "")) : [];
+
+    return docs.map(
+      (doc, i) =>
+        cached[i] ?? (doc.id !== undefined && stored.has(doc.id) ? stored.get(doc.id)! : embedded[missing.indexOf(doc)])
+    );
+  }
+
+  /**
+   * Suggests related documents for every document in the index in a single pass. Searches use the
+   * vectors already held by the vector store, so no summaries are re-read or re-embedded.
+   *
+   * @param {Object} [params] - The parameters for the suggestions.
+   * @param {number} [params.limit=1] - The maximum number of suggestions to return for each document.
+   * @param {boolean} [params.save=false] - Whether to also write the result to a JSON file in the cacheStore.
+   * @param {string} [params.fileName="suggestions.json"] - The name of the file to write when saving.
+   * @param {number} [params.minScore=0] - Drop suggestions whose relevance (from 0 to 1) is below this.
+   * @param {string[]} [params.ids] - Only make suggestions for, and from, the documents with these ids, e.g. to leave out documents deleted since they were indexed.
+   * @param {string} [params.collection] - Optional name of the collection to make suggestions for.
+   * @returns {Promise<AllSuggestions>} A promise that resolves to the related documents for each document id.
+   */
+  async suggestAll({ collection, ...args }: SuggestAllArgs = {}): Promise<AllSuggestions> {
+    if (collection !== undefined) {
+      return this.collection(collection).suggestAll(args);
+    }
+
+    const { limit = 1, save = false, fileName = "suggestions.json", minScore = 0, ids } = args;
+    const suggestions: AllSuggestions = {};
+    const vectors = await this.getStoredVectors();
+    const wanted = ids && new Set(ids);
+    const unwanted = wanted ? vectors.map(({ id }) => id).filter((id) => !wanted.has(id)) : [];
+
+    for (const { id, embedding } of vectors) {
+      if (wanted && !wanted.has(id)) {
+        continue;
+      }
+
+      //ask for enough results that `limit` are left once this document and the unwanted ones are dropped
+      const results = await this.vectorStore.similaritySearchVectorWithScore(embedding, limit + 1 + unwanted.length);
+
+      suggestions[id] = this.withEnrichment(
+        this.toRelatedDocuments(results, { exclude: new Set([id, ...unwanted]), minScore }).slice(0, limit)
+      );
+    }
+
+    if (save) {
+      await this.withLock(async () => this.cacheStore.set(fileName, JSON.stringify(suggestions, null, 2)));
+      this.logger.info(`Saved suggestions for ${Object.keys(suggestions).length} documents to ${fileName}`);
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Returns every vector in the vector store. If the vector store's vectors can't be read directly,
+   * the cached summaries are embedded again instead.
+   */
+  async getStoredVectors(): Promise<StoredVector[]> {
+    const storedVectors = getStoredVectors(this.vectorStore);
+
+    if (storedVectors) {
+      return storedVectors;
+    }
+
+    this.logger.warn("Unable to read vectors from this vector store, embedding cached summaries instead");
+
+    const ids = [...this.contentHasher.records.keys()].filter((id) => this.getSummaryById(id) !== undefined);
+    const summaries = ids.map((id) => this.getSummaryById(id)!);
+    const embeddings = await this.embedSummaries(summaries);
+
+    return ids.map((id, i) => ({
+      id,
+      embedding: embeddings[i],
+      pageContent: summaries[i],
+      metadata: { sourceDocumentId: id },
+    }));
+  }
+
+  /**
+   * Exports everything needed to rebuild the index elsewhere - each document's id, content hash,
+   * summary, metadata and embedding - to a single versioned JSON Lines file. The snapshot can be
+   * loaded into any vector store with `ReadNext.importSnapshot`, without re-running any models.
+   *
+   * @param {string} filePath - Where to write the snapshot.
+   *
+   * @returns {Promise<string[]>} A promise that resolves to the ids of the exported documents.
+   */
+  async exportSnapshot(filePath: string): Promise<string[]> {
+    const entries = (await this.getStoredVectors()).map(({ id, embedding, pageContent, metadata }) => ({
+      id,
+      contentHash: this.contentHasher.records.get(id),
+      fingerprint: this.contentHasher.fingerprints.get(id),
+      summary: this.getSummaryById(id) ?? pageContent,
+      metadata,
+      embedding,
+    }));
+
+    writeSnapshot(filePath, {
+      header: {
+        format: "read-next-snapshot",
+        version: snapshotVersion,
+        createdAt: new Date().toISOString(),
+        embeddingsModel: getModelName(this.embeddingsModel),
+        embeddingsFingerprint: embeddingsFingerprint(this.embeddingsModel),
+        documents: entries.length,
+      },
+      entries,
+    });
+
+    this.logger.info(`Exported ${entries.length} documents to ${filePath}`);
+
+    return entries.map(({ id }) => id);
+  }
+
+  /**
+   * Loads a snapshot's summaries and content hashes into the cacheStore, and its embeddings into the
+   * vector store, replacing any documents with the same ids. Embeddings are only added to the
+   * embedding cache if they were made by the same embeddings model as this instance uses.
+   */
+  private async loadSnapshot({ header, entries }: Snapshot) {
+    const sameModel = header.embeddingsFingerprint === embeddingsFingerprint(this.embeddingsModel);
+
+    if (!sameModel) {
+      this.logger.warn(
+        `Snapshot was embedded with ${header.embeddingsModel ?? "a different embeddings model"}, ` +
+          "its vectors may not be comparable with this instance's embeddings"
+      );
+    }
+
+    for (const { id, contentHash, fingerprint, summary, embedding } of entries) {
+      this.cacheStore.set(`summaries/${id}`, summary);
+
+      if (contentHash !== undefined) {
+        this.contentHasher.setHash(id, contentHash);
+      }
+
+      if (fingerprint !== undefined) {
+        this.contentHasher.setFingerprint(id, fingerprint);
+      }
+
+      if (sameModel) {
+        this.cacheStore.set(this.embeddingKey(summary), JSON.stringify(embedding));
+      }
+    }
+
+    this.contentHasher.save();
+
+    const ids = entries.map(({ id }) => id);
+    const existing = new Set(getVectorStoreIds(this.vectorStore));
+    await deleteFromVectorStore(
+      this.vectorStore,
+      ids.filter((id) => existing.has(id))
+    );
+
+    if (entries.length > 0) {
+      await withRetry(
+        () =>
+          this.vectorStore.addVectors(
+            entries.map(({ embedding }) => embedding),
+            entries.map(({ id, summary, metadata }) => ({
+              pageContent: summary,
+              metadata: { ...metadata, sourceDocumentId: id },
+            })),
+            { ids }
+          ),
+        this.retry
+      );
+
+      await this.saveVectorStore();
+    }
+
+    this.logger.info(`Imported ${entries.length} documents from snapshot`);
+  }
 }
 
 /**
@@ -444,12 +2326,115 @@ export class ReadNext {
  *
  * @typedef {Object} RelatedDocument
  * @property {string} sourceDocumentId - The unique identifier of the source document.
- * @property {number} score - The relevance score of the related document.
+ * @property {number} score - The raw score from the vector store. Its meaning depends on the store: FaissStore returns L2 distances (lower is better), while MemoryVectorStore returns cosine similarities (higher is better).
+ * @property {number} relevance - The score normalised to a relevance from 0 to 1, where higher is better, whatever the vector store.
+ * @property {Object} metadata - The metadata of the related document, including that of its source document.
+ * @property {string} [summary] - The summary of the related document, if `includeSummary` was requested.
+ * @property {Ranking} [ranking] - The final score and per-signal breakdown, if `ranking` was requested.
+ * @property {string} [collection] - The collection the related document belongs to, if suggesting across collections.
+ * @property {string} [explanation] - Why the related document is suggested, if `explain` was requested.
  */
 type RelatedDocument = {
   sourceDocumentId: string;
   score: number;
+  relevance: number;
   metadata: any;
+  summary?: string;
+  ranking?: Ranking;
+  collection?: string;
+  explanation?: string;
+};
+
+/**
+ * The outcome of indexing a set of documents.
+ *
+ * @typedef {Object} IndexResult
+ * @property {Document[]} summaryDocuments - The summary documents that were added to the vector store.
+ * @property {string[]} indexed - The ids of documents that were summarized and added to the vector store.
+ * @property {string[]} cached - The ids of documents whose cached summary was added to the vector store.
+ * @property {Object[]} failed - The id of each document that could not be indexed, along with the error.
+ * @property {string[]} skipped - The ids of documents that were not indexed because of `maxCost`.
+ * @property {Object} usage - The tokens used and their cost, in `total` and for each document in `documents`.
+ */
+export type IndexResult = {
+  summaryDocuments: Document[];
+  indexed: string[];
+  cached: string[];
+  failed: { id?: string; error: unknown }[];
+  skipped: string[];
+  usage: { total: Usage; documents: Record<string, Usage> };
+};
+
+/**
+ * What indexing a document would do, as worked out by a dry run.
+ *
+ * @typedef {Object} PlannedDocument
+ * @property {string} [id] - The id of the document.
+ * @property {string} status - `unchanged`, `changed`, `new` or `missing-id`.
+ * @property {string} [reason] - What changed for `changed` documents: its `content`, the `prompt` or the `model`.
+ */
+export type PlannedDocument = {
+  id?: string;
+  status: "unchanged" | "changed" | "new" | "missing-id";
+  reason?: StaleReason;
+};
+
+/**
+ * What `index` would do, returned instead of indexing when `dryRun` is set.
+ *
+ * @typedef {Object} IndexPlan
+ * @property {PlannedDocument[]} documents - What would happen to each document.
+ * @property {Object} counts - How many documents have each status.
+ * @property {number} summaries - How many summaries would be generated.
+ * @property {number} embeddings - How many summaries would be embedded and added to the vector store.
+ * @property {Usage} usage - An estimate of the tokens that would be used, and their cost.
+ */
+export type IndexPlan = {
+  documents: PlannedDocument[];
+  counts: Record<PlannedDocument["status"], number>;
+  summaries: number;
+  embeddings: number;
+  usage: Usage;
+};
+
+/**
+ * The response to a prompt, along with the tokens used to index the documents and run the prompt.
+ *
+ * @typedef {Object} PromptResult
+ * @property {string|Object} response - The summary model's response, parsed if the prompt had a schema.
+ * @property {Usage} usage - The tokens used and their cost.
+ */
+export type PromptResult<T = string> = {
+  response: T;
+  usage: Usage;
+};
+
+/**
+ * The ids removed from each of ReadNext's stores by `prune`.
+ *
+ * @typedef {Object} PruneResult
+ * @property {string[]} removed - Every id that was removed from at least one store.
+ * @property {string[]} vectorStore - The ids removed from the vector store.
+ * @property {string[]} summaries - The ids whose cached summaries were deleted.
+ * @property {string[]} contentHashes - The ids removed from the content hashes.
+ */
+type PruneResult = {
+  removed: string[];
+  vectorStore: string[];
+  summaries: string[];
+  contentHashes: string[];
+};
+
+/**
+ * What `repair` fixed, and what it couldn't.
+ *
+ * @typedef {Object} RepairResult
+ * @property {ConsistencyIssue[]} repaired - The issues that were fixed.
+ * @property {ConsistencyIssue[]} remaining - The issues found by `verify` once the repairs were made.
+ */
+export type RepairResult = {
+  repaired: ConsistencyIssue[];
+  remaining: ConsistencyIssue[];
 };
 
 /**
@@ -458,8 +2443,17 @@ type RelatedDocument = {
  * @typedef {Object} Suggestions
  * @property {string} [id] - Optional identifier for the suggestion.
  * @property {RelatedDocument[]} related - Array of related documents.
+ * @property {Object.<string, RelatedDocument[]>} [byCollection] - The related documents grouped by collection, if suggesting across collections.
  */
 type Suggestions = {
   id?: string;
   related: RelatedDocument[];
+  byCollection?: Record<string, RelatedDocument[]>;
 };
+
+/**
+ * The related documents for every document in the index, keyed by source document ID.
+ *
+ * @typedef {Object.<string, RelatedDocument[]>} AllSuggestions
+ */
+type AllSuggestions = Record<string, RelatedDocument[]>;
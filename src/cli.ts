@@ -0,0 +1,305 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+
+import fg from "fast-glob";
+import winston from "winston";
+import type { DocumentInput } from "@langchain/core/documents";
+import type { Embeddings } from "@langchain/core/embeddings";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { OpenAIEmbeddings, ChatOpenAI } from "@langchain/openai";
+
+import { ReadNext } from "./ReadNext";
+import { cacheIndicatingLogFormatter } from "./logger";
+
+export const usage = `Usage: read-next <command> <glob...> [options]
+
+Commands:
+  index                      Summarize and index all content matching the glob(s)
+  suggest                    Print suggestions for a single document (requires --id)
+  suggest-all                Print suggestions for every document matching the glob(s)
+
+Options:
+  --cache-dir <dir>          Directory to keep the ReadNext cache in (default: ./read-next)
+  --id <id>                  Id of the document to get suggestions for (suggest only)
+  --collection <name>        Index and suggest within a named collection, kept in <cache-dir>/collections/<name>
+  --limit <n>                Maximum number of suggestions per document (default: 5)
+  --min-score <n>            Drop suggestions with a relevance below this, from 0 to 1 (default: 0)
+  --parallel <n>             Number of documents to index in parallel (default: 1)
+  --provider <name>          Model provider to use (default: openai)
+  --summary-model <name>     Model used to summarize content (default: gpt-4o)
+  --embeddings-model <name>  Model used to embed summaries (default: text-embedding-ada-002)
+  --prune                    Remove documents that no longer match the glob(s) from the cache (index only)
+  --continue-on-error        Keep indexing when a document fails, and exit with 1 once done
+  --max-cost <usd>           Stop indexing before the cost of the run goes over this many US dollars
+  --dry-run                  Print what indexing would do and what it would cost, without doing it (index only)
+  --out <file>               Write JSON output to a file instead of stdout
+  --quiet                    Do not log progress to stderr
+  --help                     Show this message
+
+Document ids are the file paths relative to the glob's base directory, without the extension.`;
+
+/**
+ * Creates the summary and embeddings models for a given provider.
+ */
+interface Provider {
+  summaryModel: (model?: string) => BaseChatModel;
+  embeddingsModel: (model?: string) => Embeddings;
+}
+
+export const providers: Record<string, Provider> = {
+  openai: {
+    summaryModel: (model = "gpt-4o") => new ChatOpenAI({ model, temperature: 0.7 }),
+    embeddingsModel: (model = "text-embedding-ada-002") => new OpenAIEmbeddings({ model }),
+  },
+};
+
+/**
+ * Where the CLI writes its output, and how it creates its ReadNext instance. Overridable for tests.
+ */
+export interface CliEnvironment {
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  cwd: string;
+  createReadNext: typeof ReadNext.create;
+}
+
+/**
+ * Returns the static (non-glob) leading directory of a glob pattern, e.g. `content/posts` for
+ * `content/posts/**\/*.mdx`.
+ */
+export function globBase(pattern: string): string {
+  const segments = pattern.split("/");
+  const base: string[] = [];
+
+  for (const segment of segments.slice(0, -1)) {
+    if (fg.isDynamicPattern(segment)) {
+      break;
+    }
+
+    base.push(segment);
+  }
+
+  return base.join("/") || ".";
+}
+
+/**
+ * Reads every file matching the given glob patterns into a source document. Each document's id is
+ * its path relative to the base directory of the glob that matched it, without the file extension.
+ *
+ * @param patterns - One or more glob patterns.
+ * @param cwd - The directory to resolve the patterns against.
+ * @returns The source documents, sorted by id.
+ */
+export async function loadSourceDocuments(patterns: string[], cwd: string): Promise<DocumentInput[]> {
+  const documents = new Map<string, DocumentInput>();
+
+  for (const pattern of patterns) {
+    const base = globBase(pattern);
+    const files = await fg(pattern, { cwd, onlyFiles: true });
+
+    for (const file of files) {
+      const relative = path.posix.relative(base, file);
+      const id = relative.slice(0, relative.length - path.posix.extname(relative).length);
+
+      documents.set(id, {
+        id,
+        pageContent: fs.readFileSync(path.join(cwd, file), "utf8"),
+        metadata: { path: file },
+      });
+    }
+  }
+
+  return [...documents.values()].sort((a, b) => String(a.id).localeCompare(String(b.id)));
+}
+
+/**
+ * Runs the `read-next` command line tool.
+ *
+ * @param argv - The command line arguments, excluding the node binary and script path.
+ * @param env - Optional overrides for the output streams, working directory and ReadNext factory.
+ * @returns A promise that resolves to the process exit code.
+ */
+export async function runCli(argv: string[], env: Partial<CliEnvironment> = {}): Promise<number> {
+  const {
+    stdout = process.stdout,
+    stderr = process.stderr,
+    cwd = process.cwd(),
+    createReadNext = ReadNext.create,
+  } = env;
+
+  let args;
+
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        "cache-dir": { type: "string", default: "read-next" },
+        id: { type: "string" },
+        collection: { type: "string" },
+        limit: { type: "string", default: "5" },
+        "min-score": { type: "string", default: "0" },
+        parallel: { type: "string" },
+        provider: { type: "string", default: "openai" },
+        "summary-model": { type: "string" },
+        "embeddings-model": { type: "string" },
+        prune: { type: "boolean", default: false },
+        "continue-on-error": { type: "boolean", default: false },
+        "max-cost": { type: "string" },
+        "dry-run": { type: "boolean", default: false },
+        out: { type: "string" },
+        quiet: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+      },
+    });
+  } catch (e) {
+    stderr.write(`${(e as Error).message}\n\n${usage}\n`);
+    return 1;
+  }
+
+  const { values, positionals } = args;
+  const [command, ...patterns] = positionals;
+
+  if (values.help) {
+    stdout.write(`${usage}\n`);
+    return 0;
+  }
+
+  if (!["index", "suggest", "suggest-all"].includes(command)) {
+    stderr.write(`${command ? `Unknown command: ${command}` : "No command given"}\n\n${usage}\n`);
+    return 1;
+  }
+
+  if (patterns.length === 0) {
+    stderr.write(`No content glob given\n\n${usage}\n`);
+    return 1;
+  }
+
+  if (command === "suggest" && !values.id) {
+    stderr.write(`The suggest command requires --id\n\n${usage}\n`);
+    return 1;
+  }
+
+  const limit = parseInt(values.limit!, 10);
+  const parallel = values.parallel === undefined ? undefined : parseInt(values.parallel, 10);
+  const maxCost = values["max-cost"] === undefined ? undefined : parseFloat(values["max-cost"]);
+  const minScore = parseFloat(values["min-score"]!);
+
+  if (
+    isNaN(limit) ||
+    isNaN(minScore) ||
+    (parallel !== undefined && isNaN(parallel)) ||
+    (maxCost !== undefined && isNaN(maxCost))
+  ) {
+    stderr.write(`--limit, --min-score, --parallel and --max-cost must be numbers\n\n${usage}\n`);
+    return 1;
+  }
+
+  const provider = providers[values.provider!];
+
+  if (!provider) {
+    stderr.write(`Unknown provider: ${values.provider}. Supported providers: ${Object.keys(providers).join(", ")}\n`);
+    return 1;
+  }
+
+  //stdout is reserved for the JSON output, so progress logging goes to stderr
+  const logger = winston.createLogger({
+    level: "info",
+    silent: values.quiet,
+    transports: [
+      new winston.transports.Console({
+        format: cacheIndicatingLogFormatter,
+        stderrLevels: Object.keys(winston.config.npm.levels),
+      }),
+    ],
+  });
+
+  try {
+    const sourceDocuments = await loadSourceDocuments(patterns, cwd);
+
+    if (sourceDocuments.length === 0) {
+      throw new Error(`No files matched ${patterns.join(", ")}`);
+    }
+
+    const instance = await createReadNext({
+      cacheDir: path.resolve(cwd, values["cache-dir"]!),
+      summaryModel: provider.summaryModel(values["summary-model"]),
+      embeddingsModel: provider.embeddingsModel(values["embeddings-model"]),
+      logger,
+      parallel,
+      ...(values.collection ? { collections: { [values.collection]: {} } } : {}),
+    });
+    const readNext = values.collection ? instance.collection(values.collection) : instance;
+
+    const writeOutput = (output: any) => {
+      const json = JSON.stringify(output, null, 2);
+
+      if (values.out) {
+        fs.writeFileSync(path.resolve(cwd, values.out), json);
+      } else {
+        stdout.write(`${json}\n`);
+      }
+    };
+
+    if (command === "index" && values["dry-run"]) {
+      writeOutput(await readNext.index({ sourceDocuments, dryRun: true }));
+      return 0;
+    }
+
+    const {
+      indexed,
+      cached,
+      failed,
+      skipped,
+      usage: tokenUsage,
+    } = await readNext.index({
+      sourceDocuments,
+      continueOnError: values["continue-on-error"],
+      maxCost,
+    });
+    let output: any;
+
+    if (command === "index") {
+      output = {
+        indexed,
+        cached,
+        failed: failed.map(({ id, error }) => ({ id, error: (error as Error)?.message })),
+        skipped,
+        usage: tokenUsage.total,
+      };
+
+      if (values.prune) {
+        output.pruned = (await readNext.prune({ sourceDocuments })).removed;
+      }
+    } else if (command === "suggest") {
+      const sourceDocument = sourceDocuments.find((doc) => doc.id === values.id);
+
+      if (!sourceDocument) {
+        throw new Error(`No document found with id ${values.id}`);
+      }
+
+      output = await readNext.suggest({ sourceDocument, limit, minScore });
+    } else {
+      //leave out anything still in the cache whose file has since been deleted or renamed
+      output = await readNext.suggestAll({ limit, minScore, ids: sourceDocuments.map(({ id }) => String(id)) });
+    }
+
+    writeOutput(output);
+
+    if (failed.length > 0) {
+      stderr.write(`read-next ${command}: failed to index ${failed.map(({ id }) => id).join(", ")}\n`);
+      return 1;
+    }
+
+    if (skipped.length > 0) {
+      stderr.write(`read-next ${command}: stopped at --max-cost, skipped ${skipped.join(", ")}\n`);
+      return 1;
+    }
+  } catch (e) {
+    stderr.write(`read-next ${command} failed: ${(e as Error).message}\n`);
+    return 1;
+  }
+
+  return 0;
+}
@@ -0,0 +1,135 @@
+import type { StoredVector } from "./vectors";
+
+/**
+ * What can be wrong with a document across ReadNext's three stores - the vector store, the cached
+ * summaries and the content hashes:
+ *
+ * - `orphan-vector` - it is in the vector store, but has no summary or content hash
+ * - `orphan-summary` - it has a summary, but no content hash and no vector
+ * - `missing-summary` - it has a content hash, but no summary
+ * - `missing-hash` - it has a summary and a vector, but no content hash
+ * - `missing-vector` - it has a summary and a content hash, but no vector
+ * - `stale-vector` - its vector was embedded from a different summary than the cached one
+ * - `dimension-mismatch` - its vector has a different number of dimensions to the embeddings model's
+ */
+export type ConsistencyIssueType =
+  | "orphan-vector"
+  | "orphan-summary"
+  | "missing-summary"
+  | "missing-hash"
+  | "missing-vector"
+  | "stale-vector"
+  | "dimension-mismatch";
+
+/**
+ * Something wrong with one document, found by `verify`.
+ *
+ * @property {string} id - The id of the document.
+ * @property {ConsistencyIssueType} type - What is wrong.
+ * @property {string} message - A description of what is wrong.
+ */
+export interface ConsistencyIssue {
+  id: string;
+  type: ConsistencyIssueType;
+  message: string;
+}
+
+/**
+ * The result of `verify`.
+ *
+ * @property {boolean} ok - `true` if no issues were found.
+ * @property {number} documents - How many document ids appear in at least one of the stores.
+ * @property {number} [dimension] - How many dimensions each vector is expected to have.
+ * @property {boolean} vectorStoreChecked - Whether the vector store's contents could be read. If not, only the summaries and content hashes are checked.
+ * @property {ConsistencyIssue[]} issues - Everything that was found to be wrong.
+ */
+export interface VerifyResult {
+  ok: boolean;
+  documents: number;
+  dimension?: number;
+  vectorStoreChecked: boolean;
+  issues: ConsistencyIssue[];
+}
+
+/**
+ * Everything `checkConsistency` compares.
+ *
+ * @property {StoredVector[]} [vectors] - The vector store's vectors, or `undefined` if they can't be read.
+ * @property {Map} summaries - The cached summaries, by document id.
+ * @property {Set} hashes - The ids that have a content hash.
+ * @property {number} [dimension] - How many dimensions each vector should have.
+ */
+export interface CacheContents {
+  vectors?: StoredVector[];
+  summaries: Map<string, string>;
+  hashes: Set<string>;
+  dimension?: number;
+}
+
+/**
+ * Returns the most common length of the given vectors, or `undefined` if there are none.
+ */
+export function mostCommonLength(vectors: number[][]): number | undefined {
+  const counts = new Map<number, number>();
+
+  for (const { length } of vectors) {
+    counts.set(length, (counts.get(length) ?? 0) + 1);
+  }
+
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Cross-checks the vector store, the cached summaries and the content hashes, and describes every
+ * document that is missing from one of them, or whose vector doesn't match its summary.
+ *
+ * @param contents - The contents of the three stores.
+ * @returns Everything that was found to be wrong, sorted by document id.
+ */
+export function checkConsistency({ vectors, summaries, hashes, dimension }: CacheContents): VerifyResult {
+  const vectorsById = new Map((vectors ?? []).map((vector) => [vector.id, vector]));
+  const ids = [...new Set([...vectorsById.keys(), ...summaries.keys(), ...hashes])].sort();
+  const issues: ConsistencyIssue[] = [];
+
+  const report = (id: string, type: ConsistencyIssueType, message: string) => issues.push({ id, type, message });
+
+  for (const id of ids) {
+    const vector = vectorsById.get(id);
+    const summary = summaries.get(id);
+    const hasHash = hashes.has(id);
+    //undefined when the vector store can't be read
+    const inVectorStore = vectors === undefined ? undefined : vector !== undefined;
+
+    if (summary === undefined && !hasHash) {
+      report(id, "orphan-vector", `${id} is in the vector store, but has no summary or content hash`);
+    } else if (summary === undefined) {
+      report(id, "missing-summary", `${id} has a content hash${vector ? " and a vector" : ""}, but no summary`);
+    } else if (!hasHash && inVectorStore === false) {
+      report(id, "orphan-summary", `${id} has a summary, but no content hash and is not in the vector store`);
+    } else if (!hasHash) {
+      report(id, "missing-hash", `${id} has a summary, but no content hash`);
+    } else if (inVectorStore === false) {
+      report(id, "missing-vector", `${id} has a summary and a content hash, but is not in the vector store`);
+    }
+
+    if (vector && summary !== undefined && vector.pageContent !== summary) {
+      report(id, "stale-vector", `The vector for ${id} was embedded from a different summary than the cached one`);
+    }
+
+    if (vector && dimension !== undefined && vector.embedding.length !== dimension) {
+      report(
+        id,
+        "dimension-mismatch",
+        `The vector for ${id} has ${vector.embedding.length} dimensions, not ${dimension}`
+      );
+    }
+  }
+
+  return {
+    ok: issues.length === 0,
+    documents: ids.length,
+    dimension,
+    vectorStoreChecked: vectors !== undefined,
+    issues,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * A candidate for maximal marginal relevance: how relevant it is to the source document, and its
+ * embedding, which is compared with the embeddings of the candidates already selected.
+ */
+export interface MmrCandidate {
+  relevance: number;
+  embedding: number[];
+}
+
+/**
+ * Cosine similarity of two vectors, from -1 to 1. Zero vectors have a similarity of 0.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Selects `k` candidates with maximal marginal relevance: each pick is the candidate with the best
+ * balance between its relevance and its similarity to the candidates already picked. `diversity`
+ * sets the balance, from 0 (relevance only, i.e. the original order) to 1 (redundancy only).
+ *
+ * @param candidates - The candidates, with their relevance and embeddings.
+ * @param diversity - How much to penalise candidates that are similar to ones already picked, from 0 to 1.
+ * @param k - How many candidates to select.
+ * @returns The indices of the selected candidates, in the order they were picked.
+ */
+export function maximalMarginalRelevance(candidates: MmrCandidate[], diversity: number, k: number): number[] {
+  const lambda = 1 - Math.min(1, Math.max(0, diversity));
+  const selected: number[] = [];
+  const remaining = new Set(candidates.keys());
+
+  while (selected.length < k && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+
+    for (const i of remaining) {
+      const redundancy = Math.max(
+        0,
+        ...selected.map((j) => cosineSimilarity(candidates[i].embedding, candidates[j].embedding))
+      );
+      const score = lambda * candidates[i].relevance - (1 - lambda) * redundancy;
+
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+  }
+
+  return selected;
+}
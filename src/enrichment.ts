@@ -0,0 +1,56 @@
+import type { JsonSchema } from "./schema";
+
+/**
+ * Structured information about a document, generated alongside its summary when enrichment is
+ * enabled.
+ *
+ * @property {string} teaser - A one or two sentence teaser, suitable for a meta description.
+ * @property {string[]} keywords - Keywords that describe the document.
+ * @property {string[]} tags - Broad topic tags for the document.
+ * @property {string} difficulty - How much the reader is expected to know already.
+ * @property {number} readingTime - How long the document takes to read, in whole minutes.
+ */
+export interface Enrichment {
+  teaser: string;
+  keywords: string[];
+  tags: string[];
+  difficulty: "beginner" | "intermediate" | "advanced";
+  readingTime: number;
+}
+
+/**
+ * The schema of the summary model's enrichment response. The reading time is not included, as it
+ * is worked out from the length of the document instead.
+ */
+export const enrichmentSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    teaser: { type: "string", minLength: 1, maxLength: 300 },
+    keywords: { type: "array", items: { type: "string" }, maxItems: 20 },
+    tags: { type: "array", items: { type: "string" }, maxItems: 10 },
+    difficulty: { type: "string", enum: ["beginner", "intermediate", "advanced"] },
+  },
+  required: ["teaser", "keywords", "tags", "difficulty"],
+};
+
+export const defaultEnrichmentPrompt = `Here is the summary of an article. Please describe the article with a JSON object
+  with the following properties:
+
+  - teaser: one or two sentences that make somebody want to read the article, suitable for a meta description
+  - keywords: up to 10 keywords or key phrases that describe the article
+  - tags: up to 5 broad topic tags for the article, in lower case
+  - difficulty: how much the reader is expected to know already, one of "beginner", "intermediate" or "advanced"
+
+  Please do not reply with anything except the JSON object.`;
+
+/**
+ * Estimates how long a text takes to read, in whole minutes (at least 1).
+ *
+ * @param text - The text to read.
+ * @param wordsPerMinute - How fast the reader reads.
+ */
+export function readingTime(text: string, wordsPerMinute = 230): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+
+  return Math.max(1, Math.round(words / wordsPerMinute));
+}
@@ -0,0 +1,45 @@
+import type { IndexResult } from "./ReadNext";
+
+/**
+ * Thrown by `index` when a document can't be indexed and `continueOnError` is not set. Documents
+ * that were indexed before the failure are kept, and are listed in `result` alongside the failure.
+ */
+export class IndexError extends Error {
+  /**
+   * What had been indexed, served from cache, or failed when indexing stopped.
+   */
+  result: IndexResult;
+
+  constructor(result: IndexResult) {
+    const ids = result.failed.map(({ id }) => id).join(", ");
+    const cause = result.failed[0]?.error;
+
+    super(`Failed to index ${ids}`, { cause });
+
+    this.name = "IndexError";
+    this.result = result;
+  }
+}
+
+/**
+ * Thrown when a model's response should be JSON matching a schema, but isn't.
+ */
+export class SchemaValidationError extends Error {
+  /**
+   * Each way the response doesn't match the schema.
+   */
+  errors: string[];
+
+  /**
+   * The model's response.
+   */
+  response: string;
+
+  constructor(errors: string[], response: string) {
+    super(`Response does not match the schema: ${errors.join("; ")}`);
+
+    this.name = "SchemaValidationError";
+    this.errors = errors;
+    this.response = response;
+  }
+}
@@ -0,0 +1,75 @@
+import type { IndexResult } from "./ReadNext";
+
+/**
+ * How far an `index` run has got. `completed` counts every document that has been added to the
+ * vector store or has failed, out of `total`.
+ */
+export interface IndexProgress {
+  total: number;
+  completed: number;
+  indexed: number;
+  cached: number;
+  failed: number;
+}
+
+/**
+ * `collection` is the name of the collection the document is being indexed into, if it isn't the
+ * default one.
+ */
+export interface DocumentEvent {
+  id?: string;
+  collection?: string;
+  progress: IndexProgress;
+}
+
+export interface SummaryEvent extends DocumentEvent {
+  summary: string;
+}
+
+export interface DocumentErrorEvent extends DocumentEvent {
+  error: unknown;
+}
+
+export interface IndexCompleteEvent {
+  result: IndexResult;
+  collection?: string;
+  progress: IndexProgress;
+}
+
+/**
+ * The events ReadNext emits while indexing, and the payload each one is emitted with.
+ *
+ * - `document:start` - a document is about to be summarized
+ * - `summary:cache-hit` - a fresh cached summary was found for the document
+ * - `summary:generated` - a new summary was generated for the document
+ * - `embedding:added` - the document's summary was added to the vector store
+ * - `document:error` - the document could not be indexed, even after retrying
+ * - `index:complete` - every document has been processed, or indexing stopped after an error
+ */
+export type ReadNextEvents = {
+  "document:start": [DocumentEvent];
+  "summary:cache-hit": [SummaryEvent];
+  "summary:generated": [SummaryEvent];
+  "embedding:added": [DocumentEvent];
+  "document:error": [DocumentErrorEvent];
+  "index:complete": [IndexCompleteEvent];
+};
+
+/**
+ * The name of every ReadNext event.
+ */
+export const readNextEventTypes: (keyof ReadNextEvents)[] = [
+  "document:start",
+  "summary:cache-hit",
+  "summary:generated",
+  "embedding:added",
+  "document:error",
+  "index:complete",
+];
+
+/**
+ * Any ReadNext event, tagged with its name. This is what `onProgress` callbacks receive.
+ */
+export type ReadNextEvent = {
+  [E in keyof ReadNextEvents]: { type: E } & ReadNextEvents[E][0];
+}[keyof ReadNextEvents];
@@ -0,0 +1,40 @@
+/**
+ * Restricts suggestions to documents whose metadata matches. Either a predicate that receives each
+ * candidate's metadata, or an object whose keys must all match the candidate's metadata:
+ *
+ * - `{ status: "published" }` matches documents whose `status` is `"published"`
+ * - `{ lang: ["en", "fr"] }` matches documents whose `lang` is either `"en"` or `"fr"`
+ * - `{ tags: "react" }` matches documents whose `tags` array contains `"react"`
+ */
+export type MetadataFilter = Record<string, any> | ((metadata: Record<string, any>) => boolean);
+
+function matchesValue(actual: any, expected: any): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) ? actual.some((value) => expected.includes(value)) : expected.includes(actual);
+  }
+
+  if (Array.isArray(actual)) {
+    return actual.includes(expected);
+  }
+
+  return actual === expected;
+}
+
+/**
+ * Checks whether a document's metadata satisfies a filter.
+ *
+ * @param metadata - The metadata of the candidate document.
+ * @param filter - The filter to apply. If not given, every document matches.
+ * @returns `true` if the document should be kept.
+ */
+export function matchesFilter(metadata: Record<string, any> = {}, filter?: MetadataFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  if (typeof filter === "function") {
+    return filter(metadata);
+  }
+
+  return Object.entries(filter).every(([key, expected]) => matchesValue(metadata[key], expected));
+}
@@ -0,0 +1,81 @@
+import { createHash } from "crypto";
+import type { BaseLanguageModelInterface } from "@langchain/core/language_models/base";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+
+import { getModelName } from "./usage";
+
+/**
+ * Settings that don't change what a model generates (credentials, transport and retry options), so
+ * they are left out of model fingerprints. Otherwise rotating an API key would invalidate the cache.
+ */
+const ignoredSettings =
+  /(key|secret|password|access_?token|organization|headers|base_?url|timeout|retries|fetch|stream|dangerously)/i;
+
+/**
+ * Returns the sha256 hex digest of a string.
+ */
+export function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * JSON.stringify with object keys sorted, so that equal values always produce the same string.
+ * Functions and undefined values are dropped.
+ */
+export function stableStringify(value: any): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === "object" && !Array.isArray(nested)) {
+      return Object.fromEntries(
+        Object.keys(nested)
+          .sort()
+          .map((key) => [key, nested[key]])
+      );
+    }
+
+    return typeof nested === "function" ? undefined : nested;
+  });
+}
+
+/**
+ * Returns the settings that identify what a model will generate: its type, name and generation
+ * settings such as temperature.
+ *
+ * @param model - The LangChain model to identify.
+ * @returns The model's identifying settings.
+ */
+export function describeModel(model: BaseLanguageModelInterface): Record<string, any> {
+  const params: Record<string, any> = (model as any)._identifyingParams?.() ?? {};
+
+  return {
+    type: model._llmType(),
+    ...Object.fromEntries(Object.entries(params).filter(([key]) => !ignoredSettings.test(key))),
+  };
+}
+
+/**
+ * Returns a hash of the model's identifying settings, which changes whenever the model or the
+ * settings that affect its output change.
+ *
+ * @param model - The LangChain model to fingerprint.
+ * @returns The sha256 hex digest of the model's identifying settings.
+ */
+export function modelFingerprint(model: BaseLanguageModelInterface): string {
+  return hash(stableStringify(describeModel(model)));
+}
+
+/**
+ * Returns a hash identifying an embeddings model: its class, model name and dimensions. Vectors
+ * from models with different fingerprints can't be mixed.
+ *
+ * @param model - The LangChain embeddings model to fingerprint.
+ * @returns The sha256 hex digest of the model's identifying settings.
+ */
+export function embeddingsFingerprint(model: EmbeddingsInterface): string {
+  return hash(
+    stableStringify({
+      type: model.constructor.name,
+      model: getModelName(model),
+      dimensions: (model as any).dimensions,
+    })
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * A document the reader has read. More recent and more heavily weighted reads count for more when
+ * suggesting what to read next.
+ *
+ * @property {string} id - The id of the document.
+ * @property {number} [weight=1] - How much the read counts, e.g. more for articles read to the end.
+ * @property {Date|string|number} [readAt] - When the document was read. Reads without a date don't decay.
+ */
+export interface HistoryItem {
+  id: string;
+  weight?: number;
+  readAt?: Date | string | number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The constant in reciprocal rank fusion's `1 / (k + rank)`, which stops the top few ranks of any
+ * single list from dominating. 60 is the value from the original paper.
+ */
+export const rrfK = 60;
+
+/**
+ * Returns how much each read counts: its weight, halved for every `halfLifeDays` since it was read.
+ *
+ * @param history - The reader's history.
+ * @param halfLifeDays - How many days it takes for a read to count half as much.
+ * @param now - The current time.
+ * @returns The weight of each item in the history, in the same order.
+ */
+export function historyWeights(history: HistoryItem[], halfLifeDays: number, now = new Date()): number[] {
+  return history.map(({ weight = 1, readAt }) => {
+    const date = readAt === undefined ? undefined : new Date(readAt);
+
+    if (!date || isNaN(date.getTime())) {
+      return weight;
+    }
+
+    const ageInDays = Math.max(0, (now.getTime() - date.getTime()) / DAY);
+
+    return weight * Math.pow(0.5, ageInDays / halfLifeDays);
+  });
+}
+
+/**
+ * Returns the weighted average of a set of vectors.
+ *
+ * @param vectors - The vectors to average, all of the same length.
+ * @param weights - The weight of each vector.
+ */
+export function weightedCentroid(vectors: number[][], weights: number[]): number[] {
+  const centroid = new Array(vectors[0]?.length ?? 0).fill(0);
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0) || 1;
+
+  for (const [i, vector] of vectors.entries()) {
+    for (let j = 0; j < vector.length; j++) {
+      centroid[j] += (vector[j] * weights[i]) / totalWeight;
+    }
+  }
+
+  return centroid;
+}
+
+/**
+ * Merges several ranked lists of ids with weighted reciprocal rank fusion: each id scores
+ * `weight / (k + rank)` for every list it appears in, so ids that rank well in several lists rise
+ * to the top.
+ *
+ * @param rankings - The ranked lists, best first.
+ * @param weights - The weight of each list.
+ * @returns The fused score of every id, highest first.
+ */
+export function reciprocalRankFusion(rankings: string[][], weights: number[]): [string, number][] {
+  const scores = new Map<string, number>();
+
+  for (const [i, ranking] of rankings.entries()) {
+    for (const [rank, id] of ranking.entries()) {
+      scores.set(id, (scores.get(id) ?? 0) + weights[i] / (rrfK + rank + 1));
+    }
+  }
+
+  return [...scores.entries()].sort((a, b) => b[1] - a[1]);
+}
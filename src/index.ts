@@ -1,2 +1,31 @@
 export * from "./ReadNext";
 export * from "./logger";
+export type { MetadataFilter } from "./filter";
+export { tagOverlap, recency, sameCategory } from "./ranking";
+export type { ScoreType } from "./vectors";
+export type { RankingOptions, RankingSignal, RankingContext, Ranking, WeightedSignal } from "./ranking";
+export { FileSystemCacheStore, MemoryCacheStore, SqliteCacheStore } from "./CacheStore";
+export type { CacheStore, SqliteDatabase } from "./CacheStore";
+export { IndexError, SchemaValidationError } from "./errors";
+export { withRetry, isTransientError } from "./retry";
+export type { RetryOptions } from "./retry";
+export { CacheLock } from "./lock";
+export type { LockOptions } from "./lock";
+export type { ConsistencyIssue, ConsistencyIssueType, VerifyResult } from "./consistency";
+export type {
+  ReadNextEvents,
+  ReadNextEvent,
+  IndexProgress,
+  DocumentEvent,
+  SummaryEvent,
+  DocumentErrorEvent,
+  IndexCompleteEvent,
+} from "./events";
+export { defaultPricing } from "./usage";
+export type { ModelPrice, Pricing, TokenUsage, Usage } from "./usage";
+export { snapshotVersion } from "./snapshot";
+export type { Snapshot, SnapshotHeader, SnapshotEntry } from "./snapshot";
+export type { HistoryItem } from "./history";
+export { enrichmentSchema, defaultEnrichmentPrompt } from "./enrichment";
+export type { Enrichment } from "./enrichment";
+export type { JsonSchema, ResponseParser, ResponseSchema } from "./schema";
@@ -0,0 +1,299 @@
+import { randomBytes } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import winston from "winston";
+
+/**
+ * Controls how long ReadNext waits for another process to finish with a cacheDir.
+ *
+ * @property {number} [timeout=21600000] - How long to wait for the lock, in milliseconds, before giving up. Another process's whole `index` run can hold it, hence the long default.
+ * @property {number} [staleAfter=3600000] - How long a lock on another machine can go without being refreshed, in milliseconds, before it is assumed to have been abandoned.
+ * @property {number} [pollInterval=500] - How often to check whether the lock has been released, in milliseconds.
+ */
+export interface LockOptions {
+  timeout?: number;
+  staleAfter?: number;
+  pollInterval?: number;
+}
+
+/**
+ * Who holds a lock, as written to the lock file. The nonce tells two locks taken by the same process
+ * apart.
+ */
+interface LockHolder {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+  nonce: string;
+}
+
+/**
+ * A lock file that stops two processes (two CI jobs, say) from writing to the same cacheDir at the
+ * same time. The lock is re-entrant within the process that holds it, so locked operations can call
+ * each other.
+ *
+ * Locks taken by a process on this machine that has since exited are removed. The holder refreshes
+ * the lock file's modification time while it runs, so locks from other machines are only removed
+ * once they have gone `staleAfter` without being refreshed.
+ */
+export class CacheLock {
+  /**
+   * The path of the lock file.
+   */
+  file: string;
+
+  timeout: number;
+  staleAfter: number;
+  pollInterval: number;
+  logger: winston.Logger;
+
+  /**
+   * Called once the lock has been acquired, before any locked function runs.
+   */
+  onAcquire?: () => Promise<void>;
+
+  /**
+   * How many locked operations are running in this process.
+   */
+  private depth = 0;
+
+  /**
+   * The contents of the lock file this process created, while it holds the lock.
+   */
+  private held?: string;
+
+  /**
+   * Keeps the lock file's modification time fresh while the lock is held.
+   */
+  private refresher?: NodeJS.Timeout;
+
+  /**
+   * Resolves when this process has the lock, while it is being acquired.
+   */
+  private acquiring?: Promise<void>;
+
+  /**
+   * Constructs a new `CacheLock`. Nothing is written until the lock is acquired.
+   *
+   * @param file - The path of the lock file.
+   * @param logger - A logger instance for logging messages.
+   * @param onAcquire - Called once the lock has been acquired, e.g. to reload state other processes have written.
+   */
+  constructor({
+    file,
+    logger,
+    onAcquire,
+    timeout = 6 * 60 * 60 * 1000,
+    staleAfter = 60 * 60 * 1000,
+    pollInterval = 500,
+  }: LockOptions & { file: string; logger: winston.Logger; onAcquire?: () => Promise<void> }) {
+    this.file = file;
+    this.logger = logger;
+    this.onAcquire = onAcquire;
+    this.timeout = timeout;
+    this.staleAfter = staleAfter;
+    this.pollInterval = pollInterval;
+  }
+
+  /**
+   * Runs a function while holding the lock, waiting for any other process to release it first.
+   *
+   * @param fn - The function to run.
+   * @returns Whatever the function returns.
+   * @throws If the lock is still held by another process after `timeout`.
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.depth === 0) {
+      this.acquiring ??= this.acquire().finally(() => (this.acquiring = undefined));
+    }
+
+    this.depth += 1;
+
+    try {
+      await this.acquiring;
+
+      return await fn();
+    } finally {
+      this.depth -= 1;
+
+      if (this.depth === 0 && this.held) {
+        this.release();
+      }
+    }
+  }
+
+  /**
+   * Removes the lock file, unless it is no longer ours (if it was wrongly removed as stale).
+   */
+  private release() {
+    clearInterval(this.refresher);
+
+    if (this.contents() === this.held) {
+      fs.rmSync(this.file, { force: true });
+    }
+
+    this.held = undefined;
+  }
+
+  /**
+   * Creates the lock file, waiting for another process's lock to be released (or go stale) first.
+   */
+  private async acquire(): Promise<void> {
+    const deadline = Date.now() + this.timeout;
+    const holder: LockHolder = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      acquiredAt: new Date().toISOString(),
+      nonce: randomBytes(8).toString("hex"),
+    };
+    let waiting = false;
+
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+
+    for (;;) {
+      if (this.create(JSON.stringify(holder))) {
+        try {
+          await this.onAcquire?.();
+        } catch (e) {
+          this.release();
+          throw e;
+        }
+
+        return;
+      }
+
+      const contents = this.contents();
+      const current = this.holder(contents);
+
+      if (this.isStale(current)) {
+        this.removeStale(contents, current);
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the lock ${this.file}, held by process ${current?.pid ?? "unknown"}`);
+      }
+
+      if (!waiting) {
+        this.logger.info(`Waiting for process ${current?.pid ?? "unknown"} to release ${this.file}`);
+        waiting = true;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.pollInterval));
+    }
+  }
+
+  /**
+   * Creates the lock file, if nobody else has.
+   *
+   * @returns `true` if this process now holds the lock.
+   */
+  private create(contents: string): boolean {
+    try {
+      fs.writeFileSync(this.file, contents, { flag: "wx" });
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "EEXIST") {
+        return false;
+      }
+
+      throw e;
+    }
+
+    this.held = contents;
+    this.refresh();
+
+    return true;
+  }
+
+  /**
+   * Touches the lock file periodically while it is held, so other processes can tell it is in use.
+   */
+  private refresh() {
+    const held = this.held;
+
+    this.refresher = setInterval(() => {
+      if (this.contents() === held) {
+        const now = new Date();
+
+        try {
+          fs.utimesSync(this.file, now, now);
+        } catch (e) {
+          //released in the meantime
+        }
+      }
+    }, Math.max(10, this.staleAfter / 4));
+    this.refresher.unref();
+  }
+
+  /**
+   * Removes a stale lock. It is renamed out of the way first, and put back if it turns out another
+   * waiter had already replaced it with a fresh lock of its own.
+   */
+  private removeStale(contents: string | undefined, holder: LockHolder | undefined) {
+    const removed = `${this.file}.${process.pid}.${randomBytes(4).toString("hex")}.stale`;
+
+    try {
+      fs.renameSync(this.file, removed);
+    } catch (e) {
+      //somebody else removed it first
+      return;
+    }
+
+    if (fs.readFileSync(removed, "utf8") === contents) {
+      this.logger.warn(`Removed stale lock ${this.file}, left by process ${holder?.pid ?? "unknown"}`);
+    } else {
+      try {
+        fs.linkSync(removed, this.file);
+      } catch (e) {
+        //the lock has been taken again in the meantime
+      }
+    }
+
+    fs.rmSync(removed, { force: true });
+  }
+
+  /**
+   * Reads the lock file, if it exists.
+   */
+  private contents(): string | undefined {
+    try {
+      return fs.readFileSync(this.file, "utf8");
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Parses the lock file's contents, if it has been written.
+   */
+  private holder(contents: string | undefined): LockHolder | undefined {
+    try {
+      return contents === undefined ? undefined : JSON.parse(contents);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * A lock taken by a process on this machine is stale once that process has exited, however long
+   * it has been held. Any other lock is stale once it has gone `staleAfter` without being refreshed.
+   */
+  private isStale(holder: LockHolder | undefined): boolean {
+    if (holder && holder.hostname === os.hostname()) {
+      try {
+        process.kill(holder.pid, 0);
+        return false;
+      } catch (e) {
+        return (e as NodeJS.ErrnoException).code === "ESRCH";
+      }
+    }
+
+    try {
+      return Date.now() - fs.statSync(this.file).mtimeMs > this.staleAfter;
+    } catch (e) {
+      //the lock was released while we looked at it
+      return false;
+    }
+  }
+}
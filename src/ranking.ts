@@ -0,0 +1,169 @@
+/**
+ * A ranking signal scores how good a candidate is as a suggestion for the source document, from 0
+ * (not at all) to 1 (as good as it gets). Signals receive the metadata of both documents, plus the
+ * candidate's vector similarity to the source, also from 0 to 1.
+ */
+export type RankingSignal = (context: RankingContext) => number;
+
+export interface RankingContext {
+  source: Record<string, any>;
+  candidate: Record<string, any>;
+  similarity: number;
+  now: Date;
+}
+
+/**
+ * A signal and how much it counts towards the final score, relative to the other signals.
+ */
+export interface WeightedSignal {
+  weight: number;
+  signal: RankingSignal;
+}
+
+export interface TagOverlapOptions {
+  weight: number;
+  field?: string;
+}
+
+export interface RecencyOptions {
+  weight: number;
+  field?: string;
+  halfLifeDays?: number;
+}
+
+export interface CategoryOptions {
+  weight: number;
+  field?: string;
+}
+
+/**
+ * Configures the ranking stage of `suggest`. Each built-in signal can be given as just a weight, or
+ * as an object that also names the metadata field it reads.
+ *
+ * @property {number} [similarity=1] - Weight of the vector similarity between the two summaries.
+ * @property {number|TagOverlapOptions} [tags] - Weight of the overlap between the documents' tags (field: `tags`).
+ * @property {number|RecencyOptions} [recency] - Weight of how recently the candidate was published (field: `date`, half life: 365 days).
+ * @property {number|CategoryOptions} [category] - Weight of the candidate being in the same category (field: `category`).
+ * @property {Object.<string, WeightedSignal>} [signals] - Any additional, custom signals.
+ * @property {number} [candidates] - How many nearest neighbours to re-rank. Defaults to 5 times the limit.
+ */
+export interface RankingOptions {
+  similarity?: number;
+  tags?: number | TagOverlapOptions;
+  recency?: number | RecencyOptions;
+  category?: number | CategoryOptions;
+  signals?: Record<string, WeightedSignal>;
+  candidates?: number;
+}
+
+/**
+ * The final score of a ranked suggestion, along with the value of each signal that produced it.
+ */
+export interface Ranking {
+  score: number;
+  signals: Record<string, number>;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function toArray(value: any): any[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Jaccard similarity of the two documents' tags.
+ */
+export function tagOverlap(field = "tags"): RankingSignal {
+  return ({ source, candidate }) => {
+    const sourceTags = new Set(toArray(source[field]));
+    const candidateTags = new Set(toArray(candidate[field]));
+    const union = new Set([...sourceTags, ...candidateTags]);
+
+    if (union.size === 0) {
+      return 0;
+    }
+
+    return [...candidateTags].filter((tag) => sourceTags.has(tag)).length / union.size;
+  };
+}
+
+/**
+ * Exponential decay on the age of the candidate: 1 if it was published now, 0.5 if it was published
+ * `halfLifeDays` ago, and so on. Candidates without a valid date score 0.
+ */
+export function recency(field = "date", halfLifeDays = 365): RankingSignal {
+  return ({ candidate, now }) => {
+    const date = new Date(candidate[field]);
+
+    if (candidate[field] === undefined || isNaN(date.getTime())) {
+      return 0;
+    }
+
+    const ageInDays = Math.max(0, (now.getTime() - date.getTime()) / DAY);
+
+    return Math.pow(0.5, ageInDays / halfLifeDays);
+  };
+}
+
+/**
+ * 1 if both documents are in the same category, 0 otherwise.
+ */
+export function sameCategory(field = "category"): RankingSignal {
+  return ({ source, candidate }) => (source[field] !== undefined && source[field] === candidate[field] ? 1 : 0);
+}
+
+/**
+ * Turns ranking options into the full set of weighted signals, including vector similarity.
+ */
+export function getSignals({ similarity = 1, tags, recency: recent, category, signals = {} }: RankingOptions) {
+  const weighted: Record<string, WeightedSignal> = {
+    similarity: { weight: similarity, signal: (context) => context.similarity },
+  };
+
+  if (tags !== undefined) {
+    const { weight, field } = typeof tags === "number" ? { weight: tags } : tags;
+    weighted.tags = { weight, signal: tagOverlap(field) };
+  }
+
+  if (recent !== undefined) {
+    const { weight, field, halfLifeDays } = typeof recent === "number" ? { weight: recent } : recent;
+    weighted.recency = { weight, signal: recency(field, halfLifeDays) };
+  }
+
+  if (category !== undefined) {
+    const { weight, field } = typeof category === "number" ? { weight: category } : category;
+    weighted.category = { weight, signal: sameCategory(field) };
+  }
+
+  return { ...weighted, ...signals };
+}
+
+/**
+ * Scores a candidate as the weighted average of every signal.
+ *
+ * @param context - The source and candidate metadata, and the candidate's vector similarity.
+ * @param options - The ranking options.
+ * @returns The final score, from 0 to 1, and the value of each signal.
+ */
+export function rank(context: RankingContext, options: RankingOptions): Ranking {
+  const signals: Record<string, number> = {};
+  let total = 0;
+  let totalWeight = 0;
+
+  for (const [name, { weight, signal }] of Object.entries(getSignals(options))) {
+    const value = Math.min(1, Math.max(0, signal(context)));
+
+    signals[name] = value;
+    total += weight * value;
+    totalWeight += weight;
+  }
+
+  return {
+    score: totalWeight > 0 ? total / totalWeight : 0,
+    signals,
+  };
+}
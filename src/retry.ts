@@ -0,0 +1,75 @@
+/**
+ * Controls how calls to the summary model and vector store are retried when they fail with a
+ * transient error, such as a rate limit or a timeout.
+ *
+ * @property {number} [retries=3] - How many times to retry a failed call. 0 disables retrying.
+ * @property {number} [minDelay=1000] - How long to wait before the first retry, in milliseconds.
+ * @property {number} [maxDelay=30000] - The longest to wait between retries, in milliseconds.
+ * @property {number} [factor=2] - How much the delay grows after each retry.
+ * @property {Function} [isRetryable] - Decides whether an error is worth retrying. Defaults to `isTransientError`.
+ */
+export interface RetryOptions {
+  retries?: number;
+  minDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  isRetryable?: (error: any) => boolean;
+}
+
+const transientStatuses = [408, 409, 425, 429, 500, 502, 503, 504, 529];
+const transientCodes = ["ETIMEDOUT", "ECONNRESET", "ECONNREFUSED", "ECONNABORTED", "EAI_AGAIN", "EPIPE", "ENOTFOUND"];
+const transientMessages =
+  /(rate limit|too many requests|timed? ?out|overloaded|temporarily unavailable|socket hang up)/i;
+
+/**
+ * Returns `true` for errors that are likely to succeed if retried: rate limits (429), timeouts,
+ * server errors and dropped connections.
+ *
+ * @param error - The error thrown by the failed call.
+ */
+export function isTransientError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+
+  const status = error.status ?? error.statusCode ?? error.response?.status;
+
+  if (typeof status === "number") {
+    return transientStatuses.includes(status);
+  }
+
+  if (transientCodes.includes(error.code) || error.name === "TimeoutError") {
+    return true;
+  }
+
+  return transientMessages.test(String(error.message ?? ""));
+}
+
+/**
+ * Calls `fn`, retrying with exponential backoff while it fails with a retryable error.
+ *
+ * @param fn - The function to call.
+ * @param options - How to retry.
+ * @param onRetry - Called before each retry with the error, the number of the attempt that failed and the delay.
+ * @returns A promise that resolves to the result of the first successful call.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  { retries = 3, minDelay = 1000, maxDelay = 30000, factor = 2, isRetryable = isTransientError }: RetryOptions = {},
+  onRetry?: (error: any, attempt: number, delay: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > retries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = Math.min(maxDelay, minDelay * Math.pow(factor, attempt - 1));
+      onRetry?.(error, attempt, delay);
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
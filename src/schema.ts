@@ -0,0 +1,175 @@
+import { SchemaValidationError } from "./errors";
+
+/**
+ * The subset of JSON Schema that ReadNext validates model output against: types, object
+ * properties, required properties, array items, enums and simple bounds. Other keywords (such as
+ * `description`) are allowed, and ignored.
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Anything with a `parse` method that returns the value if it is valid and throws if it isn't, such
+ * as a zod schema.
+ */
+export interface ResponseParser<T> {
+  parse(value: unknown): T;
+}
+
+/**
+ * A JSON Schema, or a parser such as a zod schema, that a model's JSON response should match.
+ */
+export type ResponseSchema<T = unknown> = JsonSchema | ResponseParser<T>;
+
+function isResponseParser<T>(schema: ResponseSchema<T>): schema is ResponseParser<T> {
+  return typeof schema.parse === "function";
+}
+
+//describes the errors thrown by a parser, using each issue's path if it has them (as zod's do)
+function parserErrors(e: unknown): string[] {
+  const issues = (e as { issues?: { path?: (string | number)[]; message: string }[] })?.issues;
+
+  if (Array.isArray(issues) && issues.length > 0) {
+    return issues.map(({ path = [], message }) => `${["$", ...path].join(".")}: ${message}`);
+  }
+
+  return [e instanceof Error ? e.message : String(e)];
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+/**
+ * Checks a value against a JSON Schema.
+ *
+ * @param value - The value to check.
+ * @param schema - The schema to check it against.
+ * @param path - Where the value is, used in the error messages.
+ * @returns A description of each way the value doesn't match the schema, or an empty array if it does.
+ */
+export function schemaErrors(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const { type } = schema;
+  const actual = typeOf(value);
+
+  if (type === "integer" ? !Number.isInteger(value) : type !== undefined && actual !== type) {
+    return [`${path} should be ${/^[aeiou]/.test(type!) ? "an" : "a"} ${type}, not ${actual}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} should be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} should be at least ${schema.minimum}`);
+    }
+
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} should be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} should be at least ${schema.minLength} characters long`);
+    }
+
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} should be at most ${schema.maxLength} characters long`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`);
+    }
+
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} should have at most ${schema.maxItems} items`);
+    }
+
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...schemaErrors(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (actual === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(...schemaErrors(propertyValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parses a model's JSON response and checks it against a schema. Models often wrap JSON in a
+ * markdown code block, so one is removed if present.
+ *
+ * @param text - The model's response.
+ * @param schema - The JSON Schema the response should match, or a parser such as a zod schema.
+ * @returns The parsed response.
+ * @throws {SchemaValidationError} If the response isn't JSON, or doesn't match the schema.
+ */
+export function parseJsonResponse<T>(text: string, schema: ResponseSchema<T>): T {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  let value: unknown;
+
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    throw new SchemaValidationError([`response is not valid JSON (${(e as Error).message})`], text);
+  }
+
+  if (isResponseParser(schema)) {
+    try {
+      return schema.parse(value);
+    } catch (e) {
+      throw new SchemaValidationError(parserErrors(e), text);
+    }
+  }
+
+  const errors = schemaErrors(value, schema);
+
+  if (errors.length > 0) {
+    throw new SchemaValidationError(errors, text);
+  }
+
+  return value as T;
+}
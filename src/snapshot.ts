@@ -0,0 +1,95 @@
+import fs from "fs";
+import path from "path";
+
+import type { SummaryFingerprint } from "./ContentHasher";
+
+/**
+ * The version of the snapshot format written by `exportSnapshot`. Snapshots with a newer version
+ * than this can't be imported.
+ */
+export const snapshotVersion = 1;
+
+const snapshotFormat = "read-next-snapshot";
+
+/**
+ * The first line of a snapshot file, describing what is in it.
+ *
+ * @property {string} format - Always `read-next-snapshot`.
+ * @property {number} version - The version of the snapshot format.
+ * @property {string} createdAt - When the snapshot was exported, as an ISO 8601 string.
+ * @property {string} [embeddingsModel] - The name of the embeddings model that produced the vectors.
+ * @property {string} embeddingsFingerprint - The fingerprint of the embeddings model that produced the vectors.
+ * @property {number} documents - How many documents the snapshot holds.
+ */
+export interface SnapshotHeader {
+  format: typeof snapshotFormat;
+  version: number;
+  createdAt: string;
+  embeddingsModel?: string;
+  embeddingsFingerprint: string;
+  documents: number;
+}
+
+/**
+ * Everything ReadNext knows about one indexed document.
+ *
+ * @property {string} id - The id of the source document.
+ * @property {string} [contentHash] - The hash of the source document's content when it was summarized.
+ * @property {SummaryFingerprint} [fingerprint] - The fingerprints of the prompt and model that summarized it.
+ * @property {string} summary - The document's summary.
+ * @property {Object} metadata - The metadata of the summary document in the vector store.
+ * @property {number[]} embedding - The embedding of the summary.
+ */
+export interface SnapshotEntry {
+  id: string;
+  contentHash?: string;
+  fingerprint?: SummaryFingerprint;
+  summary: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+}
+
+export interface Snapshot {
+  header: SnapshotHeader;
+  entries: SnapshotEntry[];
+}
+
+/**
+ * Writes a snapshot as JSON Lines: the header on the first line, then one line per document, so
+ * large indexes stay diffable and can be streamed.
+ *
+ * @param filePath - Where to write the snapshot.
+ * @param snapshot - The header and entries to write.
+ */
+export function writeSnapshot(filePath: string, { header, entries }: Snapshot) {
+  const lines = [header, ...entries].map((line) => JSON.stringify(line));
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, lines.join("\n") + "\n");
+}
+
+/**
+ * Reads a snapshot written by `writeSnapshot`.
+ *
+ * @param filePath - The snapshot file to read.
+ * @returns The snapshot's header and entries.
+ * @throws If the file is not a ReadNext snapshot, or was written by a newer version of ReadNext.
+ */
+export function readSnapshot(filePath: string): Snapshot {
+  const [first, ...rest] = fs
+    .readFileSync(filePath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+
+  const header = first === undefined ? undefined : (JSON.parse(first) as SnapshotHeader);
+
+  if (header?.format !== snapshotFormat) {
+    throw new Error(`${filePath} is not a ReadNext snapshot`);
+  }
+
+  if (header.version > snapshotVersion) {
+    throw new Error(`Unsupported snapshot version ${header.version} in ${filePath}`);
+  }
+
+  return { header, entries: rest.map((line) => JSON.parse(line) as SnapshotEntry) };
+}
@@ -0,0 +1,133 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+import { FileSystemCacheStore, MemoryCacheStore, PrefixedCacheStore, SqliteCacheStore } from "../CacheStore";
+import type { CacheStore } from "../CacheStore";
+
+const cacheDir = "/tmp/cache-store-test";
+
+describe.each([
+  ["FileSystemCacheStore", () => new FileSystemCacheStore({ dir: cacheDir })],
+  ["MemoryCacheStore", () => new MemoryCacheStore()],
+  ["SqliteCacheStore", () => new SqliteCacheStore({ database: new Database(":memory:") })],
+  ["PrefixedCacheStore", () => new PrefixedCacheStore({ store: new MemoryCacheStore(), prefix: "collections/blog/" })],
+])("%s", (_name, createStore) => {
+  let store: CacheStore;
+
+  beforeEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    store = createStore();
+  });
+
+  it("returns undefined for keys that have not been set", () => {
+    expect(store.get("summaries/missing")).toBeUndefined();
+  });
+
+  it("gets and sets values", () => {
+    store.set("summaries/1", "summary 1");
+    expect(store.get("summaries/1")).toBe("summary 1");
+
+    store.set("summaries/1", "updated");
+    expect(store.get("summaries/1")).toBe("updated");
+  });
+
+  it("deletes values", () => {
+    store.set("summaries/1", "summary 1");
+
+    expect(store.delete("summaries/1")).toBe(true);
+    expect(store.get("summaries/1")).toBeUndefined();
+    expect(store.delete("summaries/1")).toBe(false);
+  });
+
+  it("lists keys by prefix, including keys with forward slashes", () => {
+    store.set("summaries/1", "summary 1");
+    store.set("summaries/nested/2", "summary 2");
+    store.set("contentHashes.json", "{}");
+
+    expect(store.list("summaries/")).toEqual(["summaries/1", "summaries/nested/2"]);
+    expect(store.list()).toEqual(["contentHashes.json", "summaries/1", "summaries/nested/2"]);
+  });
+});
+
+describe("FileSystemCacheStore", () => {
+  const store = new FileSystemCacheStore({ dir: cacheDir });
+
+  it("stores each key as a file inside the directory", () => {
+    store.set("summaries/nested/1", "summary 1");
+
+    expect(fs.readFileSync(path.join(cacheDir, "summaries", "nested", "1"), "utf8")).toBe("summary 1");
+  });
+
+  it("writes each value to a temporary file and renames it into place, leaving nothing behind", () => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    const renameSpy = jest.spyOn(fs, "renameSync");
+
+    store.set("summaries/1", "summary 1");
+
+    expect(renameSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/summaries\/\.1\.\d+\.[0-9a-f]{8}\.tmp$/),
+      path.join(cacheDir, "summaries", "1")
+    );
+    expect(fs.readdirSync(path.join(cacheDir, "summaries"))).toEqual(["1"]);
+    renameSpy.mockRestore();
+  });
+
+  it("leaves hidden files, such as the lock file, out of the list", () => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    store.set("summaries/1", "summary 1");
+    fs.writeFileSync(path.join(cacheDir, ".lock"), "{}");
+    fs.writeFileSync(path.join(cacheDir, "summaries", ".2.123.abcdef01.tmp"), "partly written");
+
+    expect(store.list()).toEqual(["summaries/1"]);
+  });
+
+  it("only reads the directory the prefix points into", () => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    store.set("summaries/nested/1", "summary 1");
+    store.set("embeddings/model/abc", "[]");
+    const readdirSpy = jest.spyOn(fs, "readdirSync");
+
+    expect(store.list("summaries/ne")).toEqual(["summaries/nested/1"]);
+    expect(readdirSpy.mock.calls.map(([dir]) => path.resolve(String(dir)))).toEqual([
+      path.join(cacheDir, "summaries"),
+      path.join(cacheDir, "summaries", "nested"),
+    ]);
+    expect(store.list("missing/")).toEqual([]);
+    readdirSpy.mockRestore();
+  });
+
+  it("does not allow keys to escape the directory", () => {
+    expect(() => store.set("../escaped", "nope")).toThrow("Invalid cache key: ../escaped");
+  });
+});
+
+describe("SqliteCacheStore", () => {
+  it("rejects invalid table names", () => {
+    expect(() => new SqliteCacheStore({ database: new Database(":memory:"), table: "x; DROP TABLE y" })).toThrow(
+      "Invalid table name"
+    );
+  });
+
+  it("uses a custom table name", () => {
+    const database = new Database(":memory:");
+    const store = new SqliteCacheStore({ database, table: "custom_cache" });
+
+    store.set("key", "value");
+    expect(database.prepare("SELECT value FROM custom_cache WHERE key = ?").get("key")).toEqual({ value: "value" });
+  });
+});
+
+describe("PrefixedCacheStore", () => {
+  it("keeps its keys under the prefix in the underlying store, apart from everything else", () => {
+    const store = new MemoryCacheStore();
+    const prefixed = new PrefixedCacheStore({ store, prefix: "collections/blog/" });
+
+    store.set("summaries/1", "root summary");
+    prefixed.set("summaries/1", "blog summary");
+
+    expect(store.get("collections/blog/summaries/1")).toBe("blog summary");
+    expect(prefixed.get("summaries/1")).toBe("blog summary");
+    expect(prefixed.list()).toEqual(["summaries/1"]);
+  });
+});
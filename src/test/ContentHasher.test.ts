@@ -3,6 +3,7 @@ import fs from "fs";
 import path from "path";
 import winston from "winston";
 import ContentHasher from "../ContentHasher";
+import { MemoryCacheStore } from "../CacheStore";
 import type { DocumentInput } from "@langchain/core/documents";
 
 describe("ContentHasher", () => {
@@ -10,6 +11,7 @@ describe("ContentHasher", () => {
   let logger: winston.Logger;
   const cacheDir = "/tmp/content-hasher-test";
   const cacheFile = path.join(cacheDir, "contentHashes.json");
+  const fingerprintsFile = path.join(cacheDir, "summaryFingerprints.json");
 
   beforeEach(() => {
     logger = winston.createLogger({
@@ -27,6 +29,13 @@ describe("ContentHasher", () => {
     if (fs.existsSync(cacheFile)) {
       fs.unlinkSync(cacheFile);
     }
+
+    if (fs.existsSync(fingerprintsFile)) {
+      fs.unlinkSync(fingerprintsFile);
+    }
+
+    fs.rmSync(`${cacheFile}.bak`, { force: true });
+    fs.rmSync(`${fingerprintsFile}.bak`, { force: true });
   });
 
   describe("constructor", () => {
@@ -74,6 +83,41 @@ describe("ContentHasher", () => {
     });
   });
 
+  describe("staleReason", () => {
+    const document: DocumentInput = { pageContent: "hello world", id: "1" };
+    const fingerprint = { prompt: "prompt", model: "model" };
+
+    beforeEach(() => {
+      contentHasher.set(document);
+      contentHasher.setFingerprint("1", fingerprint);
+    });
+
+    it("returns undefined if the content, prompt and model are unchanged", () => {
+      expect(contentHasher.staleReason(document, fingerprint)).toBeUndefined();
+      expect(contentHasher.hasFresh(document, fingerprint)).toBe(true);
+    });
+
+    it("returns new if the document has never been hashed", () => {
+      expect(contentHasher.staleReason({ pageContent: "hello world", id: "2" }, fingerprint)).toBe("new");
+    });
+
+    it("returns content if the content has changed", () => {
+      expect(contentHasher.staleReason({ pageContent: "changed", id: "1" }, fingerprint)).toBe("content");
+    });
+
+    it("returns prompt or model if either fingerprint has changed", () => {
+      expect(contentHasher.staleReason(document, { ...fingerprint, prompt: "new prompt" })).toBe("prompt");
+      expect(contentHasher.staleReason(document, { ...fingerprint, model: "new model" })).toBe("model");
+      expect(contentHasher.hasFresh(document, { ...fingerprint, model: "new model" })).toBe(false);
+    });
+
+    it("treats documents without a recorded fingerprint as fresh", () => {
+      contentHasher.fingerprints.clear();
+
+      expect(contentHasher.staleReason(document, fingerprint)).toBeUndefined();
+    });
+  });
+
   describe("set", () => {
     it("sets the content hash for a given document", () => {
       const document: DocumentInput = { pageContent: "hello world", id: "1" };
@@ -109,9 +153,78 @@ describe("ContentHasher", () => {
       expect(contentHasher.load()).toBe(false);
       expect(errorSpy).toHaveBeenCalledWith("Error loading content hashes");
     });
+
+    it("recovers corrupt content hashes from the backup written by the last save", () => {
+      contentHasher.set({ pageContent: "hello world", id: "1" });
+      contentHasher.save();
+      fs.writeFileSync(cacheFile, '{"1": "trunc');
+
+      const errorSpy = jest.spyOn(logger, "error");
+      const warnSpy = jest.spyOn(logger, "warn");
+      const recovered = new ContentHasher({ cacheDir, logger });
+
+      expect(recovered.records.get("1")).toBe(contentHasher.records.get("1"));
+      expect(errorSpy).toHaveBeenCalledWith("Error loading content hashes");
+      expect(warnSpy).toHaveBeenCalledWith("Recovered contentHashes.json from contentHashes.json.bak");
+    });
+  });
+
+  describe("with a custom store", () => {
+    it("loads and saves the content hashes using the store instead of the cache file", () => {
+      const store = new MemoryCacheStore();
+      store.set("contentHashes.json", JSON.stringify({ "1": "hash1" }));
+
+      const storeContentHasher = new ContentHasher({ cacheDir, logger, store });
+      expect(storeContentHasher.records.get("1")).toBe("hash1");
+
+      storeContentHasher.set({ pageContent: "hello world", id: "2" });
+      storeContentHasher.save();
+
+      expect(JSON.parse(store.get("contentHashes.json")!)["2"]).toBe(storeContentHasher.records.get("2"));
+      expect(fs.existsSync(cacheFile)).toBe(false);
+    });
   });
 
   describe("save", () => {
+    it("merges in hashes saved by another process since these were loaded, except deleted ones", () => {
+      const store = new MemoryCacheStore();
+      const ours = new ContentHasher({ cacheDir, logger, store });
+      const theirs = new ContentHasher({ cacheDir, logger, store });
+
+      ours.set({ pageContent: "one", id: "1" });
+      ours.set({ pageContent: "gone", id: "gone" });
+      ours.save();
+
+      theirs.set({ pageContent: "two", id: "2" });
+      theirs.save();
+
+      ours.delete("gone");
+      ours.set({ pageContent: "three", id: "3" });
+      ours.save();
+
+      expect(Object.keys(JSON.parse(store.get("contentHashes.json")!)).sort()).toEqual(["1", "2", "3"]);
+    });
+
+    it("doesn't overwrite a newer hash another process has saved with an older one held in memory", () => {
+      const store = new MemoryCacheStore();
+      const ours = new ContentHasher({ cacheDir, logger, store });
+
+      ours.set({ pageContent: "old", id: "1" });
+      ours.save();
+
+      const theirs = new ContentHasher({ cacheDir, logger, store });
+      theirs.set({ pageContent: "new", id: "1" });
+      theirs.save();
+
+      ours.set({ pageContent: "two", id: "2" });
+      ours.save();
+
+      const saved = JSON.parse(store.get("contentHashes.json")!);
+      expect(saved["1"]).toBe(theirs.records.get("1"));
+      expect(ours.records.get("1")).toBe(theirs.records.get("1"));
+      expect(Object.keys(saved).sort()).toEqual(["1", "2"]);
+    });
+
     it("saves the current content hashes to the cache file", () => {
       const document: DocumentInput = { pageContent: "hello world", id: "1" };
       contentHasher.set(document);
@@ -120,5 +233,71 @@ describe("ContentHasher", () => {
       const savedRecords = JSON.parse(fs.readFileSync(cacheFile, "utf-8"));
       expect(savedRecords["1"]).toBe(contentHasher.records.get("1"));
     });
+
+    it("saves the fingerprints alongside the content hashes, and loads them again", () => {
+      contentHasher.set({ pageContent: "hello world", id: "1" });
+      contentHasher.setFingerprint("1", { prompt: "prompt", model: "model" });
+      contentHasher.save();
+
+      const newContentHasher = new ContentHasher({ cacheDir, logger });
+      expect(newContentHasher.fingerprints.get("1")).toEqual({ prompt: "prompt", model: "model" });
+    });
+  });
+
+  describe("reload", () => {
+    it("picks up what another process has saved, keeping changes that haven't been saved yet", () => {
+      const store = new MemoryCacheStore();
+      const ours = new ContentHasher({ cacheDir, logger, store });
+      const theirs = new ContentHasher({ cacheDir, logger, store });
+
+      theirs.set({ pageContent: "theirs", id: "1" });
+      theirs.save();
+
+      ours.set({ pageContent: "ours", id: "2" });
+      ours.reload();
+
+      expect(ours.records.get("1")).toBe(theirs.records.get("1"));
+      expect(ours.records.has("2")).toBe(true);
+    });
+  });
+
+  describe("batch", () => {
+    it("collects saves and writes them batchSize at a time, and once more at the end", async () => {
+      const store = new MemoryCacheStore();
+      const setSpy = jest.spyOn(store, "set");
+      const batched = new ContentHasher({ cacheDir, logger, store });
+      batched.batchSize = 2;
+
+      await batched.batch(async () => {
+        for (const id of ["1", "2", "3"]) {
+          batched.set({ pageContent: id, id });
+          batched.save();
+        }
+
+        expect(JSON.parse(store.get("contentHashes.json")!)).toEqual({
+          "1": batched.records.get("1"),
+          "2": batched.records.get("2"),
+        });
+      });
+
+      expect(Object.keys(JSON.parse(store.get("contentHashes.json")!))).toEqual(["1", "2", "3"]);
+      //each write sets the content hashes, the fingerprints and a backup of both
+      expect(setSpy).toHaveBeenCalledTimes(8);
+    });
+
+    it("saves what it has collected even if the function throws", async () => {
+      const store = new MemoryCacheStore();
+      const batched = new ContentHasher({ cacheDir, logger, store });
+
+      await expect(
+        batched.batch(async () => {
+          batched.set({ pageContent: "one", id: "1" });
+          batched.save();
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+
+      expect(JSON.parse(store.get("contentHashes.json")!)).toEqual({ "1": batched.records.get("1") });
+    });
   });
 });
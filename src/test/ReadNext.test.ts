@@ -1,15 +1,30 @@
-import { ReadNext, defaultSummarizationPrompt } from "../ReadNext";
+import { ReadNext, defaultCombinePrompt, defaultExplanationPrompt, defaultSummarizationPrompt } from "../ReadNext";
+import { MemoryCacheStore } from "../CacheStore";
+import { IndexError, SchemaValidationError } from "../errors";
+import { snapshotVersion } from "../snapshot";
+import { defaultEnrichmentPrompt } from "../enrichment";
+import type { JsonSchema } from "../schema";
+import type { LockOptions } from "../lock";
+import * as storedVectors from "../vectors";
 import type { SaveableVectorStore, VectorStore } from "@langchain/core/vectorstores";
 import { FaissStore } from "@langchain/community/vectorstores/faiss";
 import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { Document } from "@langchain/core/documents";
 
 import fs from "fs";
 import winston from "winston";
 
 import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import os from "os";
 import path from "path";
 
-import { FakeChatModel, FakeEmbeddings, FakeVectorStore } from "@langchain/core/utils/testing";
+import {
+  FakeChatModel,
+  FakeEmbeddings,
+  FakeListChatModel,
+  FakeVectorStore,
+  SyntheticEmbeddings,
+} from "@langchain/core/utils/testing";
 
 class SaveableFakeVectorStore extends FakeVectorStore implements SaveableVectorStore {
   async save(): Promise<void> {
@@ -17,6 +32,17 @@ class SaveableFakeVectorStore extends FakeVectorStore implements SaveableVectorS
   }
 }
 
+// reports the same token usage for every call, the way ChatOpenAI does
+class MeteredChatModel extends FakeChatModel {
+  model = "gpt-4o";
+
+  async _generate(...args: Parameters<FakeChatModel["_generate"]>) {
+    const result = await super._generate(...args);
+
+    return { ...result, llmOutput: { tokenUsage: { promptTokens: 1000, completionTokens: 100, totalTokens: 1100 } } };
+  }
+}
+
 const pageContent = fs.readFileSync(path.join(__dirname, "document.mdx"), "utf-8");
 
 describe("ReadNext", () => {
@@ -137,7 +163,7 @@ describe("ReadNext", () => {
       await engine.index({ sourceDocuments: [sourceDocument] });
 
       expect(getSummaryForSpy).toHaveBeenCalled();
-      expect(getSummaryForSpy).toHaveBeenCalledWith({ sourceDocument });
+      expect(getSummaryForSpy).toHaveBeenCalledWith(expect.objectContaining({ sourceDocument }));
     });
 
     it("adds the summary documents to the vectorStore (including the generated summary)", async () => {
@@ -149,12 +175,13 @@ describe("ReadNext", () => {
       const fakeSummary = "fake summary";
       jest.spyOn(engine, "getSummaryFor").mockResolvedValue(fakeSummary);
 
-      const addDocumentsSpy = jest.spyOn(vectorStore, "addDocuments");
+      const addVectorsSpy = jest.spyOn(vectorStore, "addVectors");
 
       await engine.index({ sourceDocuments: [sourceDocument] });
 
-      expect(addDocumentsSpy).toHaveBeenCalled();
-      expect(addDocumentsSpy).toHaveBeenCalledWith(
+      expect(addVectorsSpy).toHaveBeenCalled();
+      expect(addVectorsSpy).toHaveBeenCalledWith(
+        [await embeddingsModel.embedQuery(fakeSummary)],
         expect.arrayContaining([
           expect.objectContaining({
             pageContent: fakeSummary,
@@ -178,7 +205,7 @@ describe("ReadNext", () => {
     });
 
     it("returns the summary documents", async () => {
-      const summaries = await engine.index({ sourceDocuments: [sourceDocument] });
+      const { summaryDocuments: summaries } = await engine.index({ sourceDocuments: [sourceDocument] });
 
       expect(summaries).toHaveLength(1);
       expect(summaries[0]).toHaveProperty("pageContent");
@@ -240,6 +267,1972 @@ describe("ReadNext", () => {
     it.todo("allows sourceDocuments to be passed in the constructor");
   });
 
+  describe("handling indexing failures", () => {
+    let engine: ReadNext;
+    let vectorStore: SaveableFakeVectorStore;
+
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: {} },
+      { pageContent: "doc 2", id: "2", metadata: {} },
+      { pageContent: "doc 3", id: "3", metadata: {} },
+    ];
+
+    const rateLimitError = () => Object.assign(new Error("Rate limit reached"), { status: 429 });
+
+    beforeEach(async () => {
+      vectorStore = new SaveableFakeVectorStore(new FakeEmbeddings({}));
+
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore,
+        cacheStore: new MemoryCacheStore(),
+        retry: { retries: 2, minDelay: 1 },
+        logger,
+      });
+    });
+
+    it("lists which documents were indexed and which were served from cache", async () => {
+      await engine.index({ sourceDocuments: sourceDocuments.slice(0, 2) });
+      const result = await engine.index({ sourceDocuments });
+
+      expect(result.cached).toEqual(["1", "2"]);
+      expect(result.indexed).toEqual(["3"]);
+      expect(result.failed).toEqual([]);
+      expect(result.summaryDocuments).toHaveLength(3);
+    });
+
+    it("retries transient errors from the summary model with backoff", async () => {
+      const invoke = jest
+        .spyOn(engine.summaryChain, "invoke")
+        .mockRejectedValueOnce(rateLimitError())
+        .mockRejectedValueOnce(rateLimitError());
+
+      const result = await engine.index({ sourceDocuments: [sourceDocuments[0]] });
+
+      expect(invoke).toHaveBeenCalledTimes(3);
+      expect(result.indexed).toEqual(["1"]);
+    });
+
+    it("retries transient errors from the vector store", async () => {
+      const addVectors = jest.spyOn(vectorStore, "addVectors").mockRejectedValueOnce(rateLimitError());
+
+      const result = await engine.index({ sourceDocuments: [sourceDocuments[0]] });
+
+      expect(addVectors).toHaveBeenCalledTimes(2);
+      expect(result.indexed).toEqual(["1"]);
+    });
+
+    it("does not retry errors that are not transient", async () => {
+      const invoke = jest.spyOn(engine.summaryChain, "invoke").mockRejectedValue(new Error("Invalid API key"));
+
+      await expect(engine.index({ sourceDocuments: [sourceDocuments[0]] })).rejects.toThrow(IndexError);
+      expect(invoke).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops and throws an IndexError with the partial result when a document fails", async () => {
+      jest.spyOn(engine.summaryChain, "invoke").mockResolvedValueOnce("summary 1").mockRejectedValue(new Error("boom"));
+      const saveSpy = jest.spyOn(vectorStore, "save");
+
+      const error = await engine.index({ sourceDocuments }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(IndexError);
+      expect(error.message).toBe("Failed to index 2");
+      expect(error.result.indexed).toEqual(["1"]);
+      expect(error.result.failed).toEqual([{ id: "2", error: expect.objectContaining({ message: "boom" }) }]);
+      expect(saveSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps indexing the remaining documents with continueOnError", async () => {
+      jest
+        .spyOn(engine.summaryChain, "invoke")
+        .mockResolvedValueOnce("summary 1")
+        .mockRejectedValueOnce(new Error("boom"))
+        .mockResolvedValueOnce("summary 3");
+
+      const result = await engine.index({ sourceDocuments, continueOnError: true });
+
+      expect(result.indexed).toEqual(["1", "3"]);
+      expect(result.failed.map(({ id }) => id)).toEqual(["2"]);
+      expect(engine.getSummaryById("2")).toBeUndefined();
+    });
+
+    it("reports documents without an id as failed, rather than indexing them", async () => {
+      const addVectors = jest.spyOn(vectorStore, "addVectors");
+
+      const result = await engine.index({
+        sourceDocuments: [sourceDocuments[0], { pageContent: "no id", metadata: {} }],
+        continueOnError: true,
+      });
+
+      expect(result.indexed).toEqual(["1"]);
+      expect(result.failed).toEqual([
+        { id: undefined, error: expect.objectContaining({ message: "Document has no id, so it can't be indexed" }) },
+      ]);
+      expect(addVectors).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("token usage and cost", () => {
+    let engine: ReadNext;
+    let summaryModel: MeteredChatModel;
+
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: {} },
+      { pageContent: "doc 2", id: "2", metadata: {} },
+      { pageContent: "doc 3", id: "3", metadata: {} },
+    ];
+
+    beforeEach(async () => {
+      summaryModel = new MeteredChatModel({});
+
+      engine = await ReadNext.create({
+        summaryModel,
+        vectorStore: new SaveableFakeVectorStore(new FakeEmbeddings({})),
+        cacheStore: new MemoryCacheStore(),
+        pricing: { "gpt-4o": { input: 2, output: 10 } },
+        logger,
+      });
+    });
+
+    it("reports the tokens used and their cost for each document and for the run", async () => {
+      const { usage } = await engine.index({ sourceDocuments: sourceDocuments.slice(0, 2) });
+
+      expect(usage.documents["1"].summary).toEqual({ inputTokens: 1000, outputTokens: 100 });
+      expect(usage.documents["1"].embeddings.inputTokens).toBeGreaterThan(0);
+      expect(usage.documents["1"].cost).toBeCloseTo(0.003);
+      expect(usage.total.summary).toEqual({ inputTokens: 2000, outputTokens: 200 });
+      expect(usage.total.cost).toBeCloseTo(0.006);
+    });
+
+    it("does not charge for summaries served from cache", async () => {
+      await engine.index({ sourceDocuments });
+      const { usage } = await engine.index({ sourceDocuments });
+
+      expect(usage.total.summary).toEqual({ inputTokens: 0, outputTokens: 0 });
+      expect(usage.total.cost).toBe(0);
+    });
+
+    it("estimates token usage when the provider doesn't report it", async () => {
+      engine.summaryModel = new FakeChatModel({});
+      engine.summaryChain = engine.summaryModel.pipe(engine.summaryParser);
+
+      const { usage } = await engine.index({ sourceDocuments: [sourceDocuments[0]] });
+
+      expect(usage.total.summary.inputTokens).toBeGreaterThan(0);
+      expect(usage.total.summary.outputTokens).toBeGreaterThan(0);
+    });
+
+    it("stops before the run goes over maxCost, and lists the documents it skipped", async () => {
+      const invoke = jest.spyOn(engine.summaryChain, "invoke");
+
+      const result = await engine.index({ sourceDocuments, maxCost: 0.006 });
+
+      expect(invoke).toHaveBeenCalledTimes(1);
+      expect(result.indexed).toEqual(["1"]);
+      expect(result.skipped).toEqual(["2", "3"]);
+      expect(result.usage.total.cost).toBeLessThanOrEqual(0.006);
+    });
+
+    it("returns the usage of a prompt along with its response when asked", async () => {
+      const { response, usage } = await engine.prompt({
+        sourceDocuments: sourceDocuments.slice(0, 2),
+        prompt: "Which of these is best?",
+        withUsage: true,
+      });
+
+      expect(typeof response).toBe("string");
+      expect(usage.summary).toEqual({ inputTokens: 3000, outputTokens: 300 });
+    });
+  });
+
+  describe("planning an index run with dryRun", () => {
+    let engine: ReadNext;
+    let cacheStore: MemoryCacheStore;
+    let vectorStore: SaveableFakeVectorStore;
+
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: {} },
+      { pageContent: "doc 2", id: "2", metadata: {} },
+    ];
+
+    beforeEach(async () => {
+      cacheStore = new MemoryCacheStore();
+      vectorStore = new SaveableFakeVectorStore(new FakeEmbeddings({}));
+
+      engine = await ReadNext.create({
+        summaryModel: new MeteredChatModel({}),
+        vectorStore,
+        cacheStore,
+        pricing: { "gpt-4o": { input: 2, output: 10 } },
+        logger,
+      });
+
+      await engine.index({ sourceDocuments });
+    });
+
+    it("classifies each document as unchanged, changed, new or missing an id", async () => {
+      const plan = await engine.index({
+        sourceDocuments: [
+          sourceDocuments[0],
+          { ...sourceDocuments[1], pageContent: "doc 2, edited" },
+          { pageContent: "doc 3", id: "3", metadata: {} },
+          { pageContent: "no id", metadata: {} },
+        ],
+        dryRun: true,
+      });
+
+      expect(plan.documents).toEqual([
+        { id: "1", status: "unchanged" },
+        { id: "2", status: "changed", reason: "content" },
+        { id: "3", status: "new" },
+        { id: undefined, status: "missing-id" },
+      ]);
+      expect(plan.counts).toEqual({ unchanged: 1, changed: 1, new: 1, "missing-id": 1 });
+      expect(plan.summaries).toBe(2);
+      expect(plan.embeddings).toBe(2); // the unchanged document's embedding is cached
+    });
+
+    it("reports documents whose prompt has changed", async () => {
+      const plan = await engine.index({ sourceDocuments, summarizationPrompt: "A new prompt", dryRun: true });
+
+      expect(plan.documents.map(({ reason }) => reason)).toEqual(["prompt", "prompt"]);
+    });
+
+    it("estimates the tokens and cost of the summaries that would be generated", async () => {
+      const unchanged = await engine.index({ sourceDocuments, dryRun: true });
+      const changed = await engine.index({ sourceDocuments, summarizationPrompt: "A new prompt", dryRun: true });
+
+      expect(unchanged.usage.summary).toEqual({ inputTokens: 0, outputTokens: 0 });
+      expect(changed.usage.summary.inputTokens).toBeGreaterThan(0);
+      expect(changed.usage.cost).toBeGreaterThan(0);
+    });
+
+    it("makes no model calls and writes nothing", async () => {
+      const invoke = jest.spyOn(engine.summaryChain, "invoke");
+      const addVectors = jest.spyOn(vectorStore, "addVectors");
+      const set = jest.spyOn(cacheStore, "set");
+      const save = jest.spyOn(engine.contentHasher, "save");
+
+      await engine.index({
+        sourceDocuments: [...sourceDocuments, { pageContent: "doc 3", id: "3", metadata: {} }],
+        dryRun: true,
+      });
+
+      expect(invoke).not.toHaveBeenCalled();
+      expect(addVectors).not.toHaveBeenCalled();
+      expect(set).not.toHaveBeenCalled();
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("indexing events", () => {
+    let engine: ReadNext;
+
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: {} },
+      { pageContent: "doc 2", id: "2", metadata: {} },
+    ];
+
+    beforeEach(async () => {
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new SaveableFakeVectorStore(new FakeEmbeddings({})),
+        cacheStore: new MemoryCacheStore(),
+        logger,
+      });
+
+      await engine.index({ sourceDocuments: [sourceDocuments[0]] });
+    });
+
+    it("emits lifecycle events for each document, with counts", async () => {
+      const events: any[] = [];
+      const names = [
+        "document:start",
+        "summary:cache-hit",
+        "summary:generated",
+        "embedding:added",
+        "document:error",
+        "index:complete",
+      ] as const;
+
+      for (const name of names) {
+        engine.on(name, (event: any) => events.push({ name, id: event.id, completed: event.progress.completed }));
+      }
+
+      await engine.index({ sourceDocuments });
+
+      expect(events).toEqual([
+        { name: "document:start", id: "1", completed: 0 },
+        { name: "summary:cache-hit", id: "1", completed: 0 },
+        { name: "embedding:added", id: "1", completed: 1 },
+        { name: "document:start", id: "2", completed: 1 },
+        { name: "summary:generated", id: "2", completed: 1 },
+        { name: "embedding:added", id: "2", completed: 2 },
+        { name: "index:complete", id: undefined, completed: 2 },
+      ]);
+    });
+
+    it("passes every event to the onProgress callback", async () => {
+      const onProgress = jest.fn();
+
+      await engine.index({ sourceDocuments, onProgress });
+
+      expect(onProgress).toHaveBeenCalledTimes(7);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        type: "index:complete",
+        result: expect.objectContaining({ indexed: ["2"], cached: ["1"] }),
+        progress: { total: 2, completed: 2, indexed: 1, cached: 1, failed: 0 },
+      });
+    });
+
+    it("emits document:error with the error when a document fails", async () => {
+      jest.spyOn(engine.summaryChain, "invoke").mockRejectedValue(new Error("boom"));
+      const onError = jest.fn();
+      engine.on("document:error", onError);
+
+      await engine.index({ sourceDocuments, continueOnError: true });
+
+      expect(onError).toHaveBeenCalledWith({
+        id: "2",
+        error: expect.objectContaining({ message: "boom" }),
+        progress: { total: 2, completed: 2, indexed: 0, cached: 1, failed: 1 },
+      });
+    });
+  });
+
+  describe("pruning documents", () => {
+    let engine: ReadNext;
+    let vectorStore: SaveableFakeVectorStore;
+
+    const cacheDir = "/tmp/read-next-prune-test";
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: {} },
+      { pageContent: "doc 2", id: "nested/2", metadata: {} },
+      { pageContent: "doc 3", id: "3", metadata: {} },
+    ];
+
+    beforeEach(async () => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+      vectorStore = new SaveableFakeVectorStore(new FakeEmbeddings({}));
+
+      engine = await ReadNext.create({
+        cacheDir,
+        summaryModel: new FakeChatModel({}),
+        vectorStore,
+        logger,
+      });
+
+      await engine.index({ sourceDocuments });
+    });
+
+    it("removes documents that are not in sourceDocuments from every store", async () => {
+      const result = await engine.prune({ sourceDocuments: [sourceDocuments[2]] });
+
+      expect(result.removed).toEqual(["1", "nested/2"]);
+      expect(result.vectorStore.sort()).toEqual(["1", "nested/2"]);
+      expect(result.summaries.sort()).toEqual(["1", "nested/2"]);
+      expect(result.contentHashes.sort()).toEqual(["1", "nested/2"]);
+
+      expect(vectorStore.memoryVectors.map((vector) => vector.metadata.sourceDocumentId)).toEqual(["3"]);
+      expect(engine.getSummaryIds()).toEqual(["3"]);
+      expect([...engine.contentHasher.records.keys()]).toEqual(["3"]);
+    });
+
+    it("persists the pruned content hashes and vector store", async () => {
+      const saveHashesSpy = jest.spyOn(engine.contentHasher, "save");
+      const saveVectorStoreSpy = jest.spyOn(vectorStore, "save");
+
+      await engine.prune({ sourceDocuments: [sourceDocuments[2]] });
+
+      expect(saveHashesSpy).toHaveBeenCalled();
+      expect(saveVectorStoreSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("removes nothing if every indexed document is still present", async () => {
+      const result = await engine.prune({ sourceDocuments });
+
+      expect(result.removed).toEqual([]);
+      expect(engine.getSummaryIds().sort()).toEqual(["1", "3", "nested/2"]);
+    });
+  });
+
+  describe("collections", () => {
+    let engine: ReadNext;
+    let cacheStore: MemoryCacheStore;
+    let vectorStores: Record<string, FakeVectorStore>;
+
+    const posts = [
+      { pageContent: "post 1", id: "post-1", metadata: {} },
+      { pageContent: "post 2", id: "post-2", metadata: {} },
+    ];
+    const talks = [{ pageContent: "talk 1", id: "talk-1", metadata: {} }];
+
+    beforeEach(async () => {
+      cacheStore = new MemoryCacheStore();
+      vectorStores = {
+        root: new FakeVectorStore(new FakeEmbeddings({})),
+        blog: new FakeVectorStore(new FakeEmbeddings({})),
+        talks: new FakeVectorStore(new FakeEmbeddings({})),
+      };
+
+      engine = await ReadNext.create({
+        cacheStore,
+        summaryModel: new FakeChatModel({}),
+        vectorStore: vectorStores.root,
+        logger,
+        collections: {
+          blog: { vectorStore: vectorStores.blog },
+          talks: { vectorStore: vectorStores.talks, summarizationPrompt: "Summarize this talk" },
+        },
+      });
+    });
+
+    it("indexes each collection into its own vector store, summaries and content hashes", async () => {
+      await engine.index({ sourceDocuments: posts, collection: "blog" });
+      await engine.index({ sourceDocuments: talks, collection: "talks" });
+
+      expect(vectorStores.root.memoryVectors).toHaveLength(0);
+      expect(vectorStores.blog.memoryVectors.map((vector) => vector.metadata.sourceDocumentId)).toEqual([
+        "post-1",
+        "post-2",
+      ]);
+      expect(vectorStores.talks.memoryVectors.map((vector) => vector.metadata.sourceDocumentId)).toEqual(["talk-1"]);
+
+      expect(engine.getSummaryIds()).toEqual([]);
+      expect(engine.collection("blog").getSummaryIds()).toEqual(["post-1", "post-2"]);
+      expect(cacheStore.list("collections/blog/summaries/")).toEqual([
+        "collections/blog/summaries/post-1",
+        "collections/blog/summaries/post-2",
+      ]);
+      expect(cacheStore.get("collections/talks/contentHashes.json")).toContain("talk-1");
+    });
+
+    it("summarizes each collection with its own prompt, falling back to the instance's", async () => {
+      await engine.index({ sourceDocuments: posts, collection: "blog" });
+      await engine.index({ sourceDocuments: talks, collection: "talks" });
+
+      expect(engine.collection("blog").getSummaryById("post-1")).toContain(defaultSummarizationPrompt);
+      expect(engine.collection("talks").getSummaryById("talk-1")).toContain("Summarize this talk");
+    });
+
+    it("only suggests documents from the same collection", async () => {
+      await engine.index({ sourceDocuments: posts, collection: "blog" });
+      await engine.index({ sourceDocuments: talks, collection: "talks" });
+
+      const { related } = await engine.suggest({ sourceDocument: posts[0], limit: 5, collection: "blog" });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["post-2"]);
+    });
+
+    describe("suggesting across collections", () => {
+      beforeEach(async () => {
+        await engine.index({ sourceDocuments: posts, collection: "blog" });
+        await engine.index({ sourceDocuments: talks, collection: "talks" });
+      });
+
+      it("suggests documents from another collection", async () => {
+        const suggestions = await engine.suggest({ sourceDocument: posts[0], limit: 5, from: "blog", to: "talks" });
+
+        expect(suggestions.id).toBe("post-1");
+        expect(suggestions.related.map((doc) => [doc.collection, doc.sourceDocumentId])).toEqual([["talks", "talk-1"]]);
+        expect(Object.keys(suggestions.byCollection!)).toEqual(["talks"]);
+      });
+
+      it("interleaves the suggestions from each target, and groups them by collection", async () => {
+        const suggestions = await engine.suggest({
+          sourceDocument: posts[0],
+          limit: 2,
+          from: "blog",
+          to: ["talks", "blog"],
+        });
+
+        expect(suggestions.related.map((doc) => [doc.collection, doc.sourceDocumentId])).toEqual([
+          ["talks", "talk-1"],
+          ["blog", "post-2"],
+        ]);
+        expect(suggestions.byCollection!.blog.map((doc) => doc.sourceDocumentId)).toEqual(["post-2"]);
+        expect(suggestions.byCollection!.talks.map((doc) => doc.sourceDocumentId)).toEqual(["talk-1"]);
+      });
+
+      it("doesn't exclude documents in other collections that share the source document's id", async () => {
+        await engine.index({ sourceDocuments: [{ pageContent: "a talk", id: "post-1" }], collection: "talks" });
+
+        const { related } = await engine.suggest({ sourceDocument: posts[0], limit: 5, from: "blog", to: "talks" });
+
+        expect(related.map((doc) => doc.sourceDocumentId).sort()).toEqual(["post-1", "talk-1"]);
+      });
+
+      it("summarizes the source document in its own collection", async () => {
+        const newPost = { pageContent: "post 3", id: "post-3", metadata: {} };
+
+        await engine.suggest({ sourceDocument: newPost, from: "blog", to: "talks" });
+
+        expect(engine.collection("blog").getSummaryById("post-3")).toBeDefined();
+        expect(engine.collection("talks").getSummaryById("post-3")).toBeUndefined();
+      });
+    });
+
+    it("passes the collection's events on, tagged with the collection name", async () => {
+      const events: any[] = [];
+      engine.on("embedding:added", (event) => events.push(event));
+
+      await engine.index({ sourceDocuments: talks, collection: "talks" });
+
+      expect(events).toEqual([expect.objectContaining({ id: "talk-1", collection: "talks" })]);
+    });
+
+    it("throws for unknown or invalid collection names", async () => {
+      await expect(engine.index({ sourceDocuments: posts, collection: "docs" })).rejects.toThrow(
+        "Unknown collection: docs"
+      );
+      await expect(
+        ReadNext.create({ vectorStore: vectorStores.root, collections: { "../escape": {} } })
+      ).rejects.toThrow("Invalid collection name: ../escape");
+    });
+
+    it("supplies a FAISS vectorStore for collections that don't have their own", async () => {
+      const instance = await ReadNext.create({
+        cacheDir: "/tmp/read-next-collections-test",
+        embeddingsModel: new FakeEmbeddings({}),
+        collections: { blog: {} },
+      });
+
+      expect(instance.collection("blog").vectorStore).toBeInstanceOf(FaissStore);
+      expect(instance.collection("blog").cacheDir).toBe("/tmp/read-next-collections-test/collections/blog");
+    });
+  });
+
+  describe("exporting and importing snapshots", () => {
+    let engine: ReadNext;
+
+    const snapshotFile = "/tmp/read-next-snapshot-test/snapshot.jsonl";
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: { tags: ["a"] } },
+      { pageContent: "doc 2", id: "nested/2", metadata: {} },
+    ];
+
+    const readLines = () =>
+      fs
+        .readFileSync(snapshotFile, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+
+    beforeEach(async () => {
+      fs.rmSync(path.dirname(snapshotFile), { recursive: true, force: true });
+
+      engine = await ReadNext.create({
+        cacheStore: new MemoryCacheStore(),
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(new SyntheticEmbeddings({ vectorSize: 4 })),
+        logger,
+      });
+
+      await engine.index({ sourceDocuments });
+    });
+
+    it("writes a versioned header followed by one line per document", async () => {
+      const ids = await engine.exportSnapshot(snapshotFile);
+      const [header, ...entries] = readLines();
+
+      expect(ids).toEqual(["1", "nested/2"]);
+      expect(header).toMatchObject({ format: "read-next-snapshot", version: snapshotVersion, documents: 2 });
+      expect(entries[0]).toEqual({
+        id: "1",
+        contentHash: engine.contentHasher.records.get("1"),
+        fingerprint: engine.contentHasher.fingerprints.get("1"),
+        summary: engine.getSummaryById("1"),
+        metadata: { tags: ["a"], sourceDocumentId: "1" },
+        embedding: await engine.embeddingsModel.embedQuery(engine.getSummaryById("1")!),
+      });
+    });
+
+    it("imports a snapshot into a new vector store and cacheStore without calling any models", async () => {
+      await engine.exportSnapshot(snapshotFile);
+
+      const embeddings = new SyntheticEmbeddings({ vectorSize: 4 });
+      const summaryModel = new FakeChatModel({});
+      const vectorStore = new FakeVectorStore(embeddings);
+      jest.spyOn(embeddings, "embedDocuments");
+      jest.spyOn(summaryModel, "invoke");
+
+      const imported = await ReadNext.importSnapshot(snapshotFile, {
+        cacheStore: new MemoryCacheStore(),
+        summaryModel,
+        vectorStore,
+        logger,
+      });
+
+      expect(imported.getSummaryIds().sort()).toEqual(["1", "nested/2"]);
+      expect(imported.getSummaryById("1")).toBe(engine.getSummaryById("1"));
+      expect(Object.fromEntries(imported.contentHasher.records)).toEqual(
+        Object.fromEntries(engine.contentHasher.records)
+      );
+      expect(vectorStore.memoryVectors.map((vector) => vector.metadata)).toEqual([
+        { tags: ["a"], sourceDocumentId: "1" },
+        { sourceDocumentId: "nested/2" },
+      ]);
+
+      const result = await imported.index({ sourceDocuments });
+
+      expect(result.cached).toEqual(["1", "nested/2"]);
+      expect(embeddings.embedDocuments).not.toHaveBeenCalled();
+      expect(summaryModel.invoke).not.toHaveBeenCalled();
+    });
+
+    it("replaces documents already in the vector store", async () => {
+      await engine.exportSnapshot(snapshotFile);
+
+      const vectorStore = new FakeVectorStore(new SyntheticEmbeddings({ vectorSize: 4 }));
+      const config = { cacheStore: new MemoryCacheStore(), summaryModel: new FakeChatModel({}), vectorStore, logger };
+
+      await ReadNext.importSnapshot(snapshotFile, config);
+      await ReadNext.importSnapshot(snapshotFile, config);
+
+      expect(vectorStore.memoryVectors).toHaveLength(2);
+    });
+
+    it("doesn't cache the embeddings if they were made by a different embeddings model", async () => {
+      await engine.exportSnapshot(snapshotFile);
+      const cacheStore = new MemoryCacheStore();
+      const warnSpy = jest.spyOn(logger, "warn");
+
+      await ReadNext.importSnapshot(snapshotFile, {
+        cacheStore,
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(new FakeEmbeddings({})),
+        logger,
+      });
+
+      expect(cacheStore.list("embeddings/")).toEqual([]);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("may not be comparable"));
+      warnSpy.mockRestore();
+    });
+
+    it("refuses files that aren't snapshots, or are from a newer version", async () => {
+      const config = { summaryModel: new FakeChatModel({}), vectorStore: new FakeVectorStore(new FakeEmbeddings({})) };
+
+      await engine.exportSnapshot(snapshotFile);
+      const [header, ...entries] = readLines();
+      fs.writeFileSync(
+        snapshotFile,
+        [{ ...header, version: snapshotVersion + 1 }, ...entries].map((line) => JSON.stringify(line)).join("\n")
+      );
+
+      await expect(ReadNext.importSnapshot(snapshotFile, config)).rejects.toThrow("Unsupported snapshot version");
+
+      fs.writeFileSync(snapshotFile, '{"hello":"world"}\n');
+      await expect(ReadNext.importSnapshot(snapshotFile, config)).rejects.toThrow("is not a ReadNext snapshot");
+    });
+  });
+
+  describe("prompting", () => {
+    let engine: ReadNext;
+    let cacheStore: MemoryCacheStore;
+    let response: string;
+    let summarizeSpy: jest.SpyInstance;
+
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: {} },
+      { pageContent: "doc 2", id: "2", metadata: {} },
+    ];
+
+    const overviewSchema: JsonSchema = {
+      type: "object",
+      properties: { title: { type: "string" }, themes: { type: "array", items: { type: "string" } } },
+      required: ["title", "themes"],
+    };
+
+    beforeEach(async () => {
+      cacheStore = new MemoryCacheStore();
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(new FakeEmbeddings({})),
+        cacheStore,
+        logger,
+      });
+
+      response = "An overview of the site";
+      summarizeSpy = jest
+        .spyOn(engine, "summarize")
+        .mockImplementation(async ({ sourceDocument }) =>
+          sourceDocument.id === "overview" ? response : `summary of ${sourceDocument.pageContent}`
+        );
+    });
+
+    const promptCalls = () =>
+      summarizeSpy.mock.calls.filter(([{ sourceDocument }]) => sourceDocument.id === "overview");
+
+    it("caches the response under the docId, and reuses it while the message and summaries are unchanged", async () => {
+      const first = await engine.prompt({ sourceDocuments, prompt: "Describe this site", docId: "overview" });
+      const second = await engine.prompt({ sourceDocuments, prompt: "Describe this site", docId: "overview" });
+
+      expect(first).toBe("An overview of the site");
+      expect(second).toBe("An overview of the site");
+      expect(promptCalls()).toHaveLength(1);
+      expect(cacheStore.list("prompts/")).toEqual([expect.stringMatching(/^prompts\/overview\/[0-9a-f]{64}$/)]);
+    });
+
+    it("doesn't count any summary tokens for a cached response", async () => {
+      summarizeSpy.mockRestore();
+
+      await engine.prompt({ sourceDocuments, prompt: "Describe this site", docId: "overview" });
+      const { usage } = await engine.prompt({
+        sourceDocuments,
+        prompt: "Describe this site",
+        docId: "overview",
+        withUsage: true,
+      });
+
+      expect(usage.summary).toEqual({ inputTokens: 0, outputTokens: 0 });
+    });
+
+    it("prompts again when the message or any of the summaries change", async () => {
+      await engine.prompt({ sourceDocuments, prompt: "Describe this site", docId: "overview" });
+      await engine.prompt({ sourceDocuments, prompt: "Describe this site briefly", docId: "overview" });
+
+      const revised = [sourceDocuments[0], { ...sourceDocuments[1], pageContent: "doc 2, revised" }];
+      await engine.prompt({ sourceDocuments: revised, prompt: "Describe this site briefly", docId: "overview" });
+
+      expect(promptCalls()).toHaveLength(3);
+    });
+
+    it("always prompts when cache is false", async () => {
+      await engine.prompt({ sourceDocuments, prompt: "Describe this site", docId: "overview", cache: false });
+      await engine.prompt({ sourceDocuments, prompt: "Describe this site", docId: "overview", cache: false });
+
+      expect(promptCalls()).toHaveLength(2);
+      expect(cacheStore.list("prompts/")).toEqual([]);
+    });
+
+    it("parses the response with a JSON Schema", async () => {
+      response = '```json\n{"title":"A blog","themes":["react","ai"]}\n```';
+
+      const overview = await engine.prompt<{ title: string; themes: string[] }>({
+        sourceDocuments,
+        prompt: "Describe this site as JSON",
+        docId: "overview",
+        schema: overviewSchema,
+      });
+
+      expect(overview).toEqual({ title: "A blog", themes: ["react", "ai"] });
+    });
+
+    it("parses the response with a parser such as a zod schema", async () => {
+      response = '{"title":"A blog","themes":["react","ai"]}';
+      const parser = { parse: (value: unknown) => ({ ...(value as { title: string }), parsed: true }) };
+
+      const { response: overview } = await engine.prompt({
+        sourceDocuments,
+        prompt: "Describe this site as JSON",
+        docId: "overview",
+        schema: parser,
+        withUsage: true,
+      });
+
+      expect(overview.parsed).toBe(true);
+      expect(overview.title).toBe("A blog");
+    });
+
+    it("throws a SchemaValidationError for a response that doesn't match, and doesn't cache it", async () => {
+      response = '{"title":"A blog"}';
+      const args = { sourceDocuments, prompt: "Describe this site as JSON", docId: "overview", schema: overviewSchema };
+
+      await expect(engine.prompt(args)).rejects.toThrow(SchemaValidationError);
+      expect(cacheStore.list("prompts/")).toEqual([]);
+
+      response = '{"title":"A blog","themes":[]}';
+      await expect(engine.prompt(args)).resolves.toEqual({ title: "A blog", themes: [] });
+      expect(promptCalls()).toHaveLength(2);
+    });
+  });
+
+  describe("suggest", () => {
+    let engine: ReadNext;
+    let vectorStore: SaveableFakeVectorStore;
+
+    const cacheDir = "/tmp/read-next-suggest-test";
+    const sourceDocuments = [
+      { pageContent: "source", id: "source", metadata: { status: "published", lang: "en" } },
+      { pageContent: "doc 1", id: "1", metadata: { status: "draft", lang: "en" } },
+      { pageContent: "doc 2", id: "2", metadata: { status: "published", lang: "en", tags: ["react"] } },
+      { pageContent: "doc 3", id: "3", metadata: { status: "draft", lang: "fr" } },
+      { pageContent: "doc 4", id: "4", metadata: { status: "published", lang: "fr", tags: ["react", "ai"] } },
+      { pageContent: "doc 5", id: "5", metadata: { status: "draft", lang: "en" } },
+    ];
+
+    beforeEach(async () => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+      vectorStore = new SaveableFakeVectorStore(new FakeEmbeddings({}));
+
+      engine = await ReadNext.create({
+        cacheDir,
+        summaryModel: new FakeChatModel({}),
+        vectorStore,
+        logger,
+      });
+
+      await engine.index({ sourceDocuments });
+    });
+
+    it("stores the source document's metadata alongside the summary", () => {
+      const vector = vectorStore.memoryVectors.find((vector) => vector.metadata.sourceDocumentId === "2");
+
+      expect(vector?.metadata).toEqual({ sourceDocumentId: "2", status: "published", lang: "en", tags: ["react"] });
+    });
+
+    it("returns at most limit suggestions, never including the source document", async () => {
+      const { id, related } = await engine.suggest({ sourceDocument: sourceDocuments[0], limit: 3 });
+
+      expect(id).toBe("source");
+      expect(related).toHaveLength(3);
+      expect(related.map((doc) => doc.sourceDocumentId)).not.toContain("source");
+    });
+
+    it("never suggests ignored documents or ids", async () => {
+      const { related } = await engine.suggest({
+        sourceDocument: sourceDocuments[0],
+        limit: 5,
+        ignore: [sourceDocuments[1], "2"],
+      });
+
+      expect(related.map((doc) => doc.sourceDocumentId).sort()).toEqual(["3", "4", "5"]);
+    });
+
+    it("filters by metadata values before applying the limit", async () => {
+      const { related } = await engine.suggest({
+        sourceDocument: sourceDocuments[0],
+        limit: 2,
+        filter: { status: "published" },
+      });
+
+      expect(related.map((doc) => doc.sourceDocumentId).sort()).toEqual(["2", "4"]);
+    });
+
+    it("matches filter arrays against any of the values, and array metadata against a single value", async () => {
+      const { related } = await engine.suggest({
+        sourceDocument: sourceDocuments[0],
+        limit: 5,
+        filter: { lang: ["en", "fr"], tags: "ai" },
+      });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["4"]);
+    });
+
+    it("accepts a filter predicate", async () => {
+      const { related } = await engine.suggest({
+        sourceDocument: sourceDocuments[0],
+        limit: 5,
+        filter: (metadata) => metadata.lang === "fr",
+      });
+
+      expect(related.map((doc) => doc.sourceDocumentId).sort()).toEqual(["3", "4"]);
+    });
+
+    it("re-ranks candidates by the ranking signals and returns a breakdown for each", async () => {
+      const sourceDocument = { ...sourceDocuments[0], metadata: { tags: ["ai"] } };
+      const { related } = await engine.suggest({ sourceDocument, limit: 2, ranking: { similarity: 1, tags: 10 } });
+
+      expect(related[0].sourceDocumentId).toBe("4");
+      expect(related[0].ranking?.signals).toEqual({ similarity: expect.any(Number), tags: 0.5 });
+      expect(related[0].ranking!.score).toBeGreaterThan(related[1].ranking!.score);
+    });
+
+    it("only includes summaries if includeSummary is set", async () => {
+      const without = await engine.suggest({ sourceDocument: sourceDocuments[0] });
+      const withSummary = await engine.suggest({ sourceDocument: sourceDocuments[0], includeSummary: true });
+
+      expect(without.related[0]).not.toHaveProperty("summary");
+      expect(typeof withSummary.related[0].summary).toBe("string");
+    });
+  });
+
+  describe("scoring and diversifying suggestions", () => {
+    let engine: ReadNext;
+    let embeddingsModel: FakeEmbeddings;
+
+    // the two parts of the series are near-identical, and "other" is a little less relevant but different
+    const vectors: Record<string, number[]> = {
+      source: [1, 0, 0],
+      "part 1": [0.95, 0.31, 0],
+      "part 2": [0.95, 0.3, 0.05],
+      other: [0.8, 0, 0.6],
+    };
+
+    beforeEach(async () => {
+      embeddingsModel = new FakeEmbeddings({});
+      jest.spyOn(embeddingsModel, "embedDocuments").mockImplementation(async (texts) => texts.map((t) => vectors[t]));
+      jest.spyOn(embeddingsModel, "embedQuery").mockImplementation(async (text) => vectors[text]);
+
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new SaveableFakeVectorStore(embeddingsModel),
+        cacheStore: new MemoryCacheStore(),
+        logger,
+      });
+
+      //use each document's content as its summary, so that it maps onto one of the vectors above
+      jest.spyOn(engine, "summarize").mockImplementation(async ({ sourceDocument }) => sourceDocument.pageContent);
+
+      await engine.index({
+        sourceDocuments: Object.keys(vectors).map((id) => ({ id, pageContent: id, metadata: {} })),
+      });
+    });
+
+    it("returns the nearest neighbours without diversity", async () => {
+      const { related } = await engine.suggest({ sourceDocument: { id: "source", pageContent: "source" }, limit: 2 });
+
+      expect(related.map((doc) => doc.sourceDocumentId).sort()).toEqual(["part 1", "part 2"]);
+    });
+
+    it("returns a relevance from 0 to 1 alongside the raw score", async () => {
+      const { related } = await engine.suggest({ sourceDocument: { id: "source", pageContent: "source" }, limit: 3 });
+
+      expect(related.map((doc) => doc.relevance)).toEqual(related.map((doc) => doc.score));
+      expect(related.find((doc) => doc.sourceDocumentId === "other")?.relevance).toBeCloseTo(0.8);
+    });
+
+    it("treats raw scores as distances when scoreType is distance", async () => {
+      engine.scoreType = "distance";
+
+      const { related } = await engine.suggest({ sourceDocument: { id: "source", pageContent: "source" }, limit: 1 });
+
+      expect(related[0].relevance).toBeCloseTo(1 / (1 + related[0].score));
+    });
+
+    it("drops suggestions below minScore instead of padding the list", async () => {
+      const { related } = await engine.suggest({
+        sourceDocument: { id: "source", pageContent: "source" },
+        limit: 3,
+        minScore: 0.9,
+      });
+
+      expect(related.map((doc) => doc.sourceDocumentId).sort()).toEqual(["part 1", "part 2"]);
+    });
+
+    it("applies minScore to suggestAll", async () => {
+      const suggestions = await engine.suggestAll({ limit: 3, minScore: 0.9 });
+
+      expect(suggestions.other).toEqual([]);
+    });
+
+    it("trades relevance for variety with diversity", async () => {
+      const { related } = await engine.suggest({
+        sourceDocument: { id: "source", pageContent: "source" },
+        limit: 2,
+        diversity: 0.5,
+      });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["part 2", "other"]);
+    });
+
+    it("reads the cached summary embeddings, rather than every vector in the store, when diversifying", async () => {
+      const getStoredVectors = jest.spyOn(storedVectors, "getStoredVectors");
+
+      const { related } = await engine.suggest({
+        sourceDocument: { id: "source", pageContent: "source" },
+        limit: 2,
+        diversity: 0.5,
+      });
+
+      expect(getStoredVectors).not.toHaveBeenCalled();
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["part 2", "other"]);
+
+      getStoredVectors.mockRestore();
+    });
+
+    it("uses the cached summary embeddings when the vector store's vectors can't be read", async () => {
+      const getStoredVectors = jest.spyOn(storedVectors, "getStoredVectors").mockReturnValue(undefined);
+      const embedDocuments = jest.mocked(embeddingsModel.embedDocuments);
+      embedDocuments.mockClear();
+
+      const { related } = await engine.suggest({
+        sourceDocument: { id: "source", pageContent: "source" },
+        limit: 2,
+        diversity: 0.5,
+      });
+
+      expect(embedDocuments).not.toHaveBeenCalled();
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["part 2", "other"]);
+
+      getStoredVectors.mockRestore();
+    });
+  });
+
+  describe("enriching documents", () => {
+    let engine: ReadNext;
+    let enrichmentResponse: string;
+    let summarizeSpy: jest.SpyInstance;
+
+    const sourceDocuments = [
+      { pageContent: "word ".repeat(1000), id: "1", metadata: { tags: ["mine"] } },
+      { pageContent: "doc 2", id: "2", metadata: {} },
+    ];
+
+    const enrichment = {
+      teaser: "Everything you need to know about words.",
+      keywords: ["words", "repetition"],
+      tags: ["language"],
+      difficulty: "beginner",
+    };
+
+    beforeEach(async () => {
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(new FakeEmbeddings({})),
+        cacheStore: new MemoryCacheStore(),
+        logger,
+        enrich: true,
+      });
+
+      enrichmentResponse = "```json\n" + JSON.stringify(enrichment) + "\n```";
+      summarizeSpy = jest
+        .spyOn(engine, "summarize")
+        .mockImplementation(async ({ sourceDocument, summarizationPrompt }) =>
+          summarizationPrompt === defaultEnrichmentPrompt ? enrichmentResponse : `summary of ${sourceDocument.id}`
+        );
+    });
+
+    it("generates and caches a teaser, keywords, tags, difficulty and reading time for each document", async () => {
+      await engine.index({ sourceDocuments });
+
+      expect(engine.getEnrichmentById("1")).toEqual({ ...enrichment, readingTime: 4 });
+      expect(summarizeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sourceDocument: expect.objectContaining({ id: "1", pageContent: "summary of 1" }),
+          summarizationPrompt: defaultEnrichmentPrompt,
+        })
+      );
+    });
+
+    it("adds the enrichment to the metadata of suggestions", async () => {
+      await engine.index({ sourceDocuments });
+
+      const { related } = await engine.suggest({ sourceDocument: sourceDocuments[1] });
+
+      expect(related[0].metadata).toEqual({
+        tags: ["mine"],
+        sourceDocumentId: "1",
+        enrichment: { ...enrichment, readingTime: 4 },
+      });
+    });
+
+    it("only looks up the enrichment of the suggestions that are returned", async () => {
+      await engine.index({ sourceDocuments: [...sourceDocuments, { pageContent: "doc 3", id: "3", metadata: {} }] });
+      const getEnrichmentSpy = jest.spyOn(engine, "getEnrichmentById");
+
+      const { related } = await engine.suggest({ sourceDocument: sourceDocuments[1], limit: 1, diversity: 0.5 });
+
+      expect(getEnrichmentSpy.mock.calls).toEqual([[related[0].sourceDocumentId]]);
+      getEnrichmentSpy.mockRestore();
+    });
+
+    it("treats an enrichment that can't be read as missing", async () => {
+      await engine.index({ sourceDocuments });
+      engine.cacheStore.set("enrichments/1", "{ not json");
+
+      const { related } = await engine.suggest({ sourceDocument: sourceDocuments[1] });
+
+      expect(engine.getEnrichmentById("1")).toBeUndefined();
+      expect(related[0].metadata).toEqual({ tags: ["mine"], sourceDocumentId: "1" });
+    });
+
+    it("only enriches documents again when their summary changes", async () => {
+      await engine.index({ sourceDocuments });
+      summarizeSpy.mockClear();
+
+      await engine.index({ sourceDocuments });
+      expect(summarizeSpy).not.toHaveBeenCalled();
+
+      await engine.index({ sourceDocuments: [{ ...sourceDocuments[1], pageContent: "doc 2, revised" }] });
+      expect(summarizeSpy).not.toHaveBeenCalledWith(
+        expect.objectContaining({ summarizationPrompt: defaultEnrichmentPrompt })
+      );
+
+      summarizeSpy.mockImplementation(async ({ summarizationPrompt }) =>
+        summarizationPrompt === defaultEnrichmentPrompt ? enrichmentResponse : "a brand new summary"
+      );
+      await engine.index({ sourceDocuments: [{ ...sourceDocuments[1], pageContent: "doc 2, revised again" }] });
+      expect(summarizeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ summarizationPrompt: defaultEnrichmentPrompt })
+      );
+    });
+
+    it("still indexes documents whose enrichment doesn't match the schema", async () => {
+      enrichmentResponse = JSON.stringify({ ...enrichment, difficulty: "impossible" });
+      const warnSpy = jest.spyOn(logger, "warn");
+
+      const result = await engine.index({ sourceDocuments: [sourceDocuments[1]] });
+
+      expect(result.indexed).toEqual(["2"]);
+      expect(engine.getEnrichmentById("2")).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Could not enrich 2: Response does not match the schema: $.difficulty should be one of "beginner", "intermediate", "advanced"',
+        expect.anything()
+      );
+      warnSpy.mockRestore();
+    });
+
+    it("doesn't enrich documents unless asked to", async () => {
+      await engine.index({ sourceDocuments, enrich: false });
+
+      expect(engine.getEnrichmentById("1")).toBeUndefined();
+    });
+  });
+
+  describe("explaining suggestions", () => {
+    let engine: ReadNext;
+    let summarizeSpy: jest.SpyInstance;
+
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: {} },
+      { pageContent: "doc 2", id: "2", metadata: {} },
+      { pageContent: "doc 3", id: "3", metadata: {} },
+    ];
+
+    beforeEach(async () => {
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(new FakeEmbeddings({})),
+        cacheStore: new MemoryCacheStore(),
+        logger,
+      });
+
+      await engine.index({ sourceDocuments });
+      summarizeSpy = jest.spyOn(engine, "summarize").mockResolvedValue("You'll like this one too.");
+    });
+
+    it("explains why each related document is suggested, from the two summaries", async () => {
+      const { related } = await engine.suggest({ sourceDocument: sourceDocuments[0], limit: 2, explain: true });
+
+      expect(related.map((doc) => doc.explanation)).toEqual(["You'll like this one too.", "You'll like this one too."]);
+      expect(summarizeSpy).toHaveBeenCalledTimes(2);
+      expect(summarizeSpy).toHaveBeenCalledWith({
+        sourceDocument: {
+          id: `1 -> ${related[0].sourceDocumentId}`,
+          pageContent: `Article being read:\n${engine.getSummaryById(
+            "1"
+          )}\n\nSuggested article:\n${engine.getSummaryById(related[0].sourceDocumentId)}`,
+        },
+        summarizationPrompt: defaultExplanationPrompt,
+      });
+    });
+
+    it("doesn't explain suggestions unless asked to", async () => {
+      const { related } = await engine.suggest({ sourceDocument: sourceDocuments[0], limit: 2 });
+
+      expect(related[0]).not.toHaveProperty("explanation");
+      expect(summarizeSpy).not.toHaveBeenCalled();
+    });
+
+    it("caches explanations until either document changes", async () => {
+      await engine.suggest({ sourceDocument: sourceDocuments[0], limit: 2, explain: true });
+      summarizeSpy.mockClear();
+
+      await engine.suggest({ sourceDocument: sourceDocuments[0], limit: 2, explain: true });
+      expect(summarizeSpy).not.toHaveBeenCalled();
+
+      summarizeSpy.mockRestore();
+      await engine.index({ sourceDocuments: [{ ...sourceDocuments[2], pageContent: "doc 3, revised" }] });
+      summarizeSpy = jest.spyOn(engine, "summarize").mockResolvedValue("You'll like this one too.");
+
+      await engine.suggest({ sourceDocument: sourceDocuments[0], limit: 2, explain: true });
+      expect(summarizeSpy).toHaveBeenCalledTimes(1);
+      expect(summarizeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceDocument: expect.objectContaining({ id: "1 -> 3" }) })
+      );
+    });
+  });
+
+  describe("suggesting from a reader's history", () => {
+    let engine: ReadNext;
+
+    // the reader has read about cats and about tax, and "cat taxes" lies between the two
+    const vectors: Record<string, number[]> = {
+      cats: [1, 0, 0],
+      tax: [0, 1, 0],
+      kittens: [0.95, 0, 0.31],
+      accounting: [0, 0.95, 0.31],
+      "cat taxes": [0.7, 0.7, 0.14],
+    };
+
+    beforeEach(async () => {
+      const embeddingsModel = new FakeEmbeddings({});
+      jest.spyOn(embeddingsModel, "embedDocuments").mockImplementation(async (texts) => texts.map((t) => vectors[t]));
+      jest.spyOn(embeddingsModel, "embedQuery").mockImplementation(async (text) => vectors[text]);
+
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(embeddingsModel),
+        cacheStore: new MemoryCacheStore(),
+        logger,
+      });
+
+      //use each document's content as its summary, so that it maps onto one of the vectors above
+      jest.spyOn(engine, "summarize").mockImplementation(async ({ sourceDocument }) => sourceDocument.pageContent);
+
+      await engine.index({
+        sourceDocuments: Object.keys(vectors).map((id) => ({ id, pageContent: id, metadata: {} })),
+      });
+    });
+
+    it("suggests documents near the centroid of everything read, excluding what has been read", async () => {
+      const { related } = await engine.suggestForHistory({ history: [{ id: "cats" }, { id: "tax" }], limit: 3 });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["cat taxes", "kittens", "accounting"]);
+    });
+
+    it("counts older reads for less", async () => {
+      const readAt = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
+
+      const { related } = await engine.suggestForHistory({
+        history: [{ id: "cats" }, { id: "tax", readAt }],
+        limit: 1,
+        halfLifeDays: 30,
+      });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["kittens"]);
+    });
+
+    it("keeps suggestions for each interest with reciprocal rank fusion", async () => {
+      const { related } = await engine.suggestForHistory({
+        history: [{ id: "cats" }, { id: "tax" }],
+        limit: 3,
+        strategy: "rrf",
+      });
+
+      expect(
+        related
+          .slice(0, 2)
+          .map((doc) => doc.sourceDocumentId)
+          .sort()
+      ).toEqual(["accounting", "kittens"]);
+      expect(related[2].sourceDocumentId).toBe("cat taxes");
+      expect(related[0].relevance).toBeCloseTo(0.95);
+    });
+
+    it("leaves out reads that have no summary", async () => {
+      const warnSpy = jest.spyOn(logger, "warn");
+
+      const { related } = await engine.suggestForHistory({ history: [{ id: "cats" }, { id: "missing" }], limit: 1 });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["kittens"]);
+      expect(warnSpy).toHaveBeenCalledWith("No summary found for missing, leaving it out of the history", {
+        id: "missing",
+      });
+      expect(await engine.suggestForHistory({ history: [{ id: "missing" }] })).toEqual({ related: [] });
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe("search", () => {
+    let engine: ReadNext;
+    let cacheStore: MemoryCacheStore;
+
+    const vectors: Record<string, number[]> = {
+      cats: [1, 0],
+      dogs: [0.8, 0.6],
+      tax: [0, 1],
+      kittens: [1, 0.05],
+      puppies: [0.7, 0.7],
+    };
+
+    beforeEach(async () => {
+      const embeddingsModel = new FakeEmbeddings({});
+      jest.spyOn(embeddingsModel, "embedDocuments").mockImplementation(async (texts) => texts.map((t) => vectors[t]));
+      jest.spyOn(embeddingsModel, "embedQuery").mockImplementation(async (text) => vectors[text]);
+
+      cacheStore = new MemoryCacheStore();
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new SaveableFakeVectorStore(embeddingsModel),
+        cacheStore,
+        logger,
+      });
+
+      jest.spyOn(engine, "summarize").mockImplementation(async ({ sourceDocument }) => sourceDocument.pageContent);
+
+      await engine.index({
+        sourceDocuments: ["cats", "dogs", "tax"].map((id) => ({ id, pageContent: id, metadata: {} })),
+      });
+    });
+
+    it("finds the documents most related to a free-text query", async () => {
+      const { related } = await engine.search({ query: "kittens", limit: 2 });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["cats", "dogs"]);
+      expect(related[0].relevance).toBeGreaterThan(related[1].relevance);
+    });
+
+    it("finds the documents most related to an unindexed document, without summarizing it by default", async () => {
+      const { id, related } = await engine.search({ document: { id: "draft", pageContent: "puppies" }, limit: 1 });
+
+      expect(id).toBe("draft");
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["dogs"]);
+      expect(engine.summarize).toHaveBeenCalledTimes(3); // only while indexing
+    });
+
+    it("summarizes the document first when asked", async () => {
+      jest.spyOn(engine, "summarize").mockResolvedValueOnce("kittens");
+
+      const { related } = await engine.search({
+        document: { id: "draft", pageContent: "puppies" },
+        summarize: true,
+        limit: 1,
+      });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).toEqual(["cats"]);
+    });
+
+    it("never writes to the cache", async () => {
+      const keys = cacheStore.list();
+      const set = jest.spyOn(cacheStore, "set");
+      const save = jest.spyOn(engine.contentHasher, "save");
+
+      await engine.search({ query: "kittens" });
+      await engine.search({ document: { pageContent: "puppies" }, summarize: true });
+      await engine.search({ document: { id: "draft", pageContent: "puppies" }, summarize: true });
+
+      expect(set).not.toHaveBeenCalled();
+      expect(save).not.toHaveBeenCalled();
+      expect(cacheStore.list()).toEqual(keys);
+    });
+
+    it("doesn't return the document itself if it has been indexed", async () => {
+      const { related } = await engine.search({ document: { id: "cats", pageContent: "cats" } });
+
+      expect(related.map((doc) => doc.sourceDocumentId)).not.toContain("cats");
+    });
+
+    it("requires a query or a document", async () => {
+      await expect(engine.search({})).rejects.toThrow("search requires a query or a document");
+    });
+
+    it("does not cache anything when summarizing a document without an id", async () => {
+      const set = jest.spyOn(cacheStore, "set");
+
+      await engine.getSummaryFor({ sourceDocument: { pageContent: "puppies" } });
+
+      expect(set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("suggestAll", () => {
+    let engine: ReadNext;
+    let vectorStore: SaveableFakeVectorStore;
+    let embeddingsModel: SyntheticEmbeddings;
+
+    const cacheDir = "/tmp/read-next-suggest-all-test";
+    const sourceDocuments = [
+      { pageContent: "cats and kittens", id: "cats", metadata: {} },
+      { pageContent: "dogs and puppies", id: "dogs", metadata: {} },
+      { pageContent: "tax returns", id: "tax", metadata: {} },
+    ];
+
+    beforeEach(async () => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+      embeddingsModel = new SyntheticEmbeddings({ vectorSize: 8 });
+      vectorStore = new SaveableFakeVectorStore(embeddingsModel);
+
+      engine = await ReadNext.create({
+        cacheDir,
+        summaryModel: new FakeChatModel({}),
+        vectorStore,
+        logger,
+      });
+
+      await engine.index({ sourceDocuments });
+    });
+
+    it("returns related documents for every indexed document, excluding itself", async () => {
+      const suggestions = await engine.suggestAll({ limit: 2 });
+
+      expect(Object.keys(suggestions).sort()).toEqual(["cats", "dogs", "tax"]);
+
+      for (const [id, related] of Object.entries(suggestions)) {
+        expect(related).toHaveLength(2);
+        expect(related.map((doc) => doc.sourceDocumentId)).not.toContain(id);
+      }
+    });
+
+    it("uses the stored vectors instead of re-embedding the summaries", async () => {
+      const embedDocumentsSpy = jest.spyOn(embeddingsModel, "embedDocuments");
+      const embedQuerySpy = jest.spyOn(embeddingsModel, "embedQuery");
+      const getSummaryForSpy = jest.spyOn(engine, "getSummaryFor");
+
+      await engine.suggestAll({ limit: 1 });
+
+      expect(embedDocumentsSpy).not.toHaveBeenCalled();
+      expect(embedQuerySpy).not.toHaveBeenCalled();
+      expect(getSummaryForSpy).not.toHaveBeenCalled();
+    });
+
+    it("optionally writes the suggestions to a JSON file in the cacheDir", async () => {
+      const suggestions = await engine.suggestAll({ limit: 1, save: true });
+
+      const saved = JSON.parse(fs.readFileSync(path.join(cacheDir, "suggestions.json"), "utf8"));
+      expect(saved).toEqual(JSON.parse(JSON.stringify(suggestions)));
+    });
+
+    it("accepts a custom file name when saving", async () => {
+      await engine.suggestAll({ save: true, fileName: "related.json" });
+
+      expect(fs.existsSync(path.join(cacheDir, "related.json"))).toBe(true);
+    });
+
+    it("uses the cached summary embeddings if the vector store's vectors can't be read", async () => {
+      // @ts-ignore
+      delete vectorStore.memoryVectors;
+      jest.spyOn(vectorStore, "similaritySearchVectorWithScore").mockResolvedValue([]);
+      const embedDocumentsSpy = jest.spyOn(embeddingsModel, "embedDocuments");
+
+      const suggestions = await engine.suggestAll();
+
+      expect(embedDocumentsSpy).not.toHaveBeenCalled();
+      expect(Object.keys(suggestions).sort()).toEqual(["cats", "dogs", "tax"]);
+    });
+  });
+
+  describe("with a custom cacheStore", () => {
+    it("keeps summaries and content hashes in the store instead of the cacheDir", async () => {
+      const cacheDir = "/tmp/read-next-cache-store-test";
+      const cacheStore = new MemoryCacheStore();
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+
+      const engine = await ReadNext.create({
+        cacheDir,
+        cacheStore,
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(new FakeEmbeddings({})),
+        logger,
+      });
+
+      await engine.index({ sourceDocuments: [{ pageContent: "hello world", id: "nested/1" }] });
+
+      expect(cacheStore.list()).toEqual([
+        "contentHashes.json",
+        "contentHashes.json.bak",
+        expect.stringMatching(/^embeddings\/[0-9a-f]{64}\/[0-9a-f]{64}$/),
+        "summaries/nested/1",
+        "summaryFingerprints.json",
+        "summaryFingerprints.json.bak",
+      ]);
+      expect(engine.getSummaryById("nested/1")).toBe(cacheStore.get("summaries/nested/1"));
+      expect(engine.getSummaryIds()).toEqual(["nested/1"]);
+      expect(fs.existsSync(cacheDir)).toBe(false);
+    });
+  });
+
+  describe("sharing a cacheDir between processes", () => {
+    const cacheDir = "/tmp/read-next-lock-test";
+    const lockFile = path.join(cacheDir, ".lock");
+
+    beforeEach(() => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    const createEngine = (config: { lock?: boolean | LockOptions; vectorStore?: VectorStore } = {}) =>
+      ReadNext.create({
+        cacheDir,
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(new FakeEmbeddings({})),
+        logger,
+        ...config,
+      });
+
+    it("locks the cacheDir while indexing, and saves the content hashes once at the end", async () => {
+      const engine = await createEngine();
+      const locked: boolean[] = [];
+      jest.spyOn(engine, "summarize").mockImplementation(async () => {
+        locked.push(fs.existsSync(lockFile));
+        return "summary";
+      });
+      const saveSpy = jest.spyOn(engine.cacheStore, "set");
+
+      await engine.index({
+        sourceDocuments: [
+          { pageContent: "doc 1", id: "1" },
+          { pageContent: "doc 2", id: "2" },
+        ],
+      });
+
+      expect(engine.lock).toBeDefined();
+      expect(locked).toEqual([true, true]);
+      expect(fs.existsSync(lockFile)).toBe(false);
+      expect(saveSpy.mock.calls.filter(([key]) => key === "contentHashes.json")).toHaveLength(1);
+      expect(Object.keys(JSON.parse(engine.cacheStore.get("contentHashes.json")!))).toEqual(["1", "2"]);
+    });
+
+    it("suggests for an indexed document while another process holds the lock", async () => {
+      const sourceDocuments = [
+        { pageContent: "doc 1", id: "1" },
+        { pageContent: "doc 2", id: "2" },
+      ];
+      const vectorStore = new FakeVectorStore(new FakeEmbeddings({}));
+      await (await createEngine({ vectorStore })).index({ sourceDocuments });
+      const engine = await createEngine({ vectorStore, lock: { timeout: 50, pollInterval: 10 } });
+      const summarizeSpy = jest.spyOn(engine, "summarize");
+
+      fs.writeFileSync(lockFile, JSON.stringify({ pid: process.ppid, hostname: os.hostname(), acquiredAt: "" }));
+      const { related } = await engine.suggest({ sourceDocument: sourceDocuments[0] });
+
+      expect(related.map(({ sourceDocumentId }) => sourceDocumentId)).toEqual(["2"]);
+      expect(summarizeSpy).not.toHaveBeenCalled();
+      expect(fs.existsSync(lockFile)).toBe(true);
+    });
+
+    it("doesn't lock the cacheDir when lock is false", async () => {
+      const engine = await createEngine({ lock: false });
+
+      expect(engine.lock).toBeUndefined();
+    });
+
+    it("reloads the content hashes once it has the lock, so it doesn't write over another process's work", async () => {
+      const first = await createEngine();
+      await first.index({ sourceDocuments: [{ pageContent: "doc 1", id: "1" }] });
+
+      const second = await createEngine();
+      await first.index({ sourceDocuments: [{ pageContent: "doc 1, edited", id: "1" }] });
+      await second.index({ sourceDocuments: [{ pageContent: "doc 2", id: "2" }] });
+
+      const saved = JSON.parse(fs.readFileSync(path.join(cacheDir, "contentHashes.json"), "utf8"));
+      expect(Object.keys(saved).sort()).toEqual(["1", "2"]);
+      expect(saved["1"]).toBe(first.contentHasher.records.get("1"));
+      expect(second.contentHasher.hasFresh({ pageContent: "doc 1, edited", id: "1" })).toBe(true);
+    });
+
+    it("reloads the FAISS index once it has the lock, if another process has saved it since", async () => {
+      const engine = await ReadNext.create({ cacheDir, embeddingsModel: new FakeEmbeddings({}), logger });
+      const reloaded = new FaissStore(engine.embeddingsModel, {});
+      const loadSpy = jest.spyOn(FaissStore, "load").mockResolvedValue(reloaded);
+
+      //as if another process had saved the index
+      fs.mkdirSync(cacheDir, { recursive: true });
+      fs.writeFileSync(path.join(cacheDir, "faiss.index"), "");
+
+      await engine.index({ sourceDocuments: [] });
+      await engine.index({ sourceDocuments: [] });
+
+      expect(engine.vectorStore).toBe(reloaded);
+      expect(loadSpy).toHaveBeenCalledTimes(1);
+      expect(loadSpy).toHaveBeenCalledWith(cacheDir, engine.embeddingsModel);
+      loadSpy.mockRestore();
+    });
+  });
+
+  describe("verifying and repairing the cache", () => {
+    let engine: ReadNext;
+    let vectorStore: FakeVectorStore;
+
+    const sourceDocuments = [
+      { pageContent: "doc 1", id: "1", metadata: { tags: ["one"] } },
+      { pageContent: "doc 2", id: "2", metadata: {} },
+      { pageContent: "doc 3", id: "3", metadata: {} },
+      { pageContent: "doc 4", id: "4", metadata: {} },
+    ];
+
+    beforeEach(async () => {
+      vectorStore = new FakeVectorStore(new FakeEmbeddings({}));
+      engine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore,
+        cacheStore: new MemoryCacheStore(),
+        logger,
+      });
+
+      await engine.index({ sourceDocuments });
+    });
+
+    //breaks the cache in every way verify can detect
+    const breakCache = async () => {
+      engine.cacheStore.delete("summaries/1");
+      engine.contentHasher.delete("2");
+      vectorStore.memoryVectors = vectorStore.memoryVectors.filter(({ metadata }) => metadata.sourceDocumentId !== "3");
+      vectorStore.memoryVectors.find(({ metadata }) => metadata.sourceDocumentId === "4")!.content = "old summary";
+      await vectorStore.addVectors([[0.1, 0.2]], [{ pageContent: "orphan", metadata: { sourceDocumentId: "orphan" } }]);
+      engine.cacheStore.set("summaries/unindexed", "summary");
+      engine.contentHasher.records.set("lost", "hash");
+    };
+
+    it("reports nothing wrong with a freshly indexed cache", async () => {
+      expect(await engine.verify()).toEqual({
+        ok: true,
+        documents: 4,
+        dimension: 4,
+        vectorStoreChecked: true,
+        issues: [],
+      });
+    });
+
+    it("reports orphans, missing entries, stale vectors and dimension mismatches", async () => {
+      await breakCache();
+
+      const result = await engine.verify();
+
+      expect(result.ok).toBe(false);
+      expect(result.issues).toEqual([
+        { id: "1", type: "missing-summary", message: "1 has a content hash and a vector, but no summary" },
+        { id: "2", type: "missing-hash", message: "2 has a summary, but no content hash" },
+        {
+          id: "3",
+          type: "missing-vector",
+          message: "3 has a summary and a content hash, but is not in the vector store",
+        },
+        {
+          id: "4",
+          type: "stale-vector",
+          message: "The vector for 4 was embedded from a different summary than the cached one",
+        },
+        { id: "lost", type: "missing-summary", message: "lost has a content hash, but no summary" },
+        {
+          id: "orphan",
+          type: "orphan-vector",
+          message: "orphan is in the vector store, but has no summary or content hash",
+        },
+        {
+          id: "orphan",
+          type: "dimension-mismatch",
+          message: "The vector for orphan has 2 dimensions, not 4",
+        },
+        {
+          id: "unindexed",
+          type: "orphan-summary",
+          message: "unindexed has a summary, but no content hash and is not in the vector store",
+        },
+      ]);
+    });
+
+    it("only checks the summaries and content hashes if the vector store can't be read", async () => {
+      engine.contentHasher.delete("2");
+      (vectorStore as any).memoryVectors = undefined;
+
+      const result = await engine.verify();
+
+      expect(result.vectorStoreChecked).toBe(false);
+      expect(result.issues.map(({ id, type }) => [id, type])).toEqual([["2", "missing-hash"]]);
+    });
+
+    it("repairs what it can from the cache, without calling the summary model", async () => {
+      await breakCache();
+      const summarizeSpy = jest.spyOn(engine, "summarize");
+
+      const { repaired, remaining } = await engine.repair();
+
+      expect(summarizeSpy).not.toHaveBeenCalled();
+      expect(repaired.map(({ id, type }) => [id, type])).toEqual([
+        ["1", "missing-summary"],
+        ["3", "missing-vector"],
+        ["4", "stale-vector"],
+        ["lost", "missing-summary"],
+      ]);
+      expect(remaining.map(({ id, type }) => [id, type])).toEqual([
+        ["2", "missing-hash"],
+        ["orphan", "orphan-vector"],
+        ["orphan", "dimension-mismatch"],
+        ["unindexed", "orphan-summary"],
+      ]);
+
+      expect(engine.getSummaryById("1")).toBeDefined();
+      expect(engine.contentHasher.records.has("lost")).toBe(false);
+      expect(vectorStore.memoryVectors.find(({ metadata }) => metadata.sourceDocumentId === "1")!.metadata).toEqual({
+        tags: ["one"],
+        sourceDocumentId: "1",
+      });
+      expect(vectorStore.memoryVectors.map(({ metadata }) => metadata.sourceDocumentId).sort()).toEqual([
+        "1",
+        "2",
+        "3",
+        "4",
+        "orphan",
+      ]);
+    });
+
+    it("rebuilds a FAISS index when the embeddings model's dimensions change, leaving out orphans", async () => {
+      //stands in for faiss-node's IndexFlat, which serializes its vectors as float32s at the end of the buffer
+      const faissIndex = (vectors: number[][]) => ({
+        ntotal: () => vectors.length,
+        getDimension: () => vectors[0].length,
+        toBuffer: () => Buffer.concat([Buffer.from("header"), Buffer.from(new Float32Array(vectors.flat()).buffer)]),
+      });
+      const ids = ["1", "2", "3", "4", "orphan"];
+      const faissStore = new FaissStore(new FakeEmbeddings({}), {
+        index: faissIndex(ids.map(() => [0.1, 0.2])) as any,
+        mapping: { ...ids },
+      });
+      for (const id of ids) {
+        const pageContent = engine.getSummaryById(id) ?? "orphan";
+        faissStore.getDocstore().add({ [id]: new Document({ pageContent, metadata: { sourceDocumentId: id } }) });
+      }
+
+      const addSpy = jest
+        .spyOn(FaissStore.prototype, "addVectors")
+        .mockImplementation(async function (this: FaissStore, vectors, documents, options) {
+          this._index = faissIndex(vectors) as any;
+          options!.ids!.forEach((id, i) => {
+            this.getMapping()[i] = id;
+            this.getDocstore().add({ [id]: documents[i] });
+          });
+          return options!.ids!;
+        });
+      const saveSpy = jest.spyOn(FaissStore.prototype, "save").mockResolvedValue();
+
+      const faissEngine = await ReadNext.create({
+        summaryModel: new FakeChatModel({}),
+        vectorStore: faissStore,
+        cacheStore: engine.cacheStore,
+        logger,
+      });
+      const { repaired, remaining } = await faissEngine.repair();
+
+      expect(repaired.map(({ id }) => id)).toEqual(["1", "2", "3", "4"]);
+      expect(remaining).toEqual([]);
+      expect(faissEngine.vectorStore).not.toBe(faissStore);
+      expect(storedVectors.getVectorStoreIds(faissEngine.vectorStore)).toEqual(["1", "2", "3", "4"]);
+      addSpy.mockRestore();
+      saveSpy.mockRestore();
+    });
+  });
+
+  describe("caching summary embeddings", () => {
+    let cacheStore: MemoryCacheStore;
+
+    const sourceDocuments = [
+      { pageContent: "hello world", id: "1" },
+      { pageContent: "goodbye world", id: "2" },
+    ];
+
+    const createEngine = (embeddings = new FakeEmbeddings({})) =>
+      ReadNext.create({
+        cacheStore,
+        summaryModel: new FakeChatModel({}),
+        embeddingsModel: embeddings,
+        vectorStore: new FakeVectorStore(embeddings),
+        logger,
+      });
+
+    beforeEach(async () => {
+      cacheStore = new MemoryCacheStore();
+
+      await (await createEngine()).index({ sourceDocuments });
+    });
+
+    it("caches an embedding for each summary", () => {
+      expect(cacheStore.list().filter((key) => key.startsWith("embeddings/"))).toHaveLength(2);
+    });
+
+    it("doesn't call the embeddings model when rebuilding a vector store from cached summaries", async () => {
+      const embeddings = new FakeEmbeddings({});
+      jest.spyOn(embeddings, "embedDocuments");
+      const engine = await createEngine(embeddings);
+
+      const result = await engine.index({ sourceDocuments });
+
+      expect(embeddings.embedDocuments).not.toHaveBeenCalled();
+      expect(result.usage.total.embeddings.inputTokens).toBe(0);
+      expect(await engine.vectorStore.similaritySearch("hello", 2)).toHaveLength(2);
+    });
+
+    it("doesn't call the embeddings model when suggesting for an indexed document", async () => {
+      const embeddings = new FakeEmbeddings({});
+      const engine = await createEngine(embeddings);
+      await engine.index({ sourceDocuments });
+      const embedDocumentsSpy = jest.spyOn(embeddings, "embedDocuments");
+      const embedQuerySpy = jest.spyOn(embeddings, "embedQuery");
+
+      const { related } = await engine.suggest({ sourceDocument: sourceDocuments[0] });
+      await engine.search({ document: sourceDocuments[0], summarize: false, limit: 1 });
+
+      expect(related.map(({ sourceDocumentId }) => sourceDocumentId)).toEqual(["2"]);
+      expect(embedDocumentsSpy).not.toHaveBeenCalled();
+      expect(embedQuerySpy).toHaveBeenCalledTimes(1); //the search query, which isn't a cached summary
+    });
+
+    it("re-embeds the summaries when the embeddings model changes", async () => {
+      const embeddings = new SyntheticEmbeddings({ vectorSize: 4 });
+      jest.spyOn(embeddings, "embedDocuments");
+      const engine = await createEngine(embeddings as any);
+
+      await engine.index({ sourceDocuments });
+
+      expect(embeddings.embedDocuments).toHaveBeenCalledTimes(2);
+      expect(cacheStore.list().filter((key) => key.startsWith("embeddings/"))).toHaveLength(4);
+    });
+  });
+
+  describe("invalidating cached summaries", () => {
+    let cacheStore: MemoryCacheStore;
+    let infoSpy: jest.SpyInstance;
+
+    const sourceDocument = { pageContent: "hello world", id: "1" };
+
+    const createEngine = (config: { summarizationPrompt?: any; summaryModel?: BaseChatModel } = {}) =>
+      ReadNext.create({
+        cacheStore,
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new FakeVectorStore(new FakeEmbeddings({})),
+        logger,
+        ...config,
+      });
+
+    beforeEach(async () => {
+      cacheStore = new MemoryCacheStore();
+      infoSpy = jest.spyOn(logger, "info");
+
+      await (await createEngine()).getSummaryFor({ sourceDocument });
+      infoSpy.mockClear();
+    });
+
+    afterEach(() => {
+      infoSpy.mockRestore();
+    });
+
+    it("uses the cached summary if nothing has changed", async () => {
+      const engine = await createEngine();
+      jest.spyOn(engine, "summarize");
+
+      await engine.getSummaryFor({ sourceDocument });
+
+      expect(engine.summarize).not.toHaveBeenCalled();
+    });
+
+    it("re-summarizes when the content changes, and logs why", async () => {
+      const engine = await createEngine();
+      jest.spyOn(engine, "summarize");
+
+      await engine.getSummaryFor({ sourceDocument: { ...sourceDocument, pageContent: "changed" } });
+
+      expect(engine.summarize).toHaveBeenCalled();
+      expect(infoSpy).toHaveBeenCalledWith("Content of 1 has changed, will generate a new summary", expect.anything());
+    });
+
+    it("re-summarizes when the summarization prompt changes, and logs why", async () => {
+      const engine = await createEngine({ summarizationPrompt: "A different prompt" });
+      jest.spyOn(engine, "summarize");
+
+      await engine.getSummaryFor({ sourceDocument });
+
+      expect(engine.summarize).toHaveBeenCalled();
+      expect(infoSpy).toHaveBeenCalledWith(
+        "Summarization prompt for 1 has changed, will generate a new summary",
+        expect.anything()
+      );
+    });
+
+    it("reuses the summary from an index run with a custom prompt when suggesting", async () => {
+      const engine = await createEngine();
+      const summarizationPrompt = "A per-run prompt";
+      await engine.index({ sourceDocuments: [sourceDocument], summarizationPrompt });
+      const summary = engine.getSummaryById("1");
+      jest.spyOn(engine, "summarize");
+
+      await engine.suggest({ sourceDocument });
+      await engine.getSummaryFor({ sourceDocument, reuseCached: true });
+
+      expect(engine.summarize).not.toHaveBeenCalled();
+      expect(engine.getSummaryById("1")).toBe(summary);
+      expect(engine.contentHasher.fingerprints.get("1")).toEqual(
+        engine.getSummaryFingerprint(sourceDocument, summarizationPrompt)
+      );
+
+      const plan = await engine.index({ sourceDocuments: [sourceDocument], summarizationPrompt, dryRun: true });
+      expect(plan.documents).toEqual([{ id: "1", status: "unchanged" }]);
+    });
+
+    it("evaluates function prompts for each document", async () => {
+      const engine = await createEngine({ summarizationPrompt: (doc: any) => `Summarize ${doc.id}` });
+      await engine.getSummaryFor({ sourceDocument });
+      jest.spyOn(engine, "summarize");
+
+      await engine.getSummaryFor({ sourceDocument });
+      await engine.getSummaryFor({ sourceDocument, summarizationPrompt: () => "Something else" });
+
+      expect(engine.summarize).toHaveBeenCalledTimes(1);
+    });
+
+    it("re-summarizes when the summary model changes, and logs why", async () => {
+      const engine = await createEngine({ summaryModel: new FakeListChatModel({ responses: ["new summary"] }) });
+      jest.spyOn(engine, "summarize");
+
+      expect(await engine.getSummaryFor({ sourceDocument })).toBe("new summary");
+      expect(engine.summarize).toHaveBeenCalled();
+      expect(infoSpy).toHaveBeenCalledWith(
+        "Summary model for 1 has changed, will generate a new summary",
+        expect.anything()
+      );
+    });
+
+    it("keeps summaries cached before fingerprints were recorded, adopting the current fingerprint", async () => {
+      cacheStore.delete("summaryFingerprints.json");
+
+      const engine = await createEngine({ summarizationPrompt: "A different prompt" });
+      jest.spyOn(engine, "summarize");
+
+      await engine.getSummaryFor({ sourceDocument });
+
+      expect(engine.summarize).not.toHaveBeenCalled();
+      expect(engine.contentHasher.fingerprints.get("1")).toEqual(
+        engine.getSummaryFingerprint(sourceDocument, "A different prompt")
+      );
+    });
+  });
+
+  describe("summarizing long documents", () => {
+    let engine: ReadNext;
+
+    const cacheDir = "/tmp/read-next-chunking-test";
+    const sections = ["a".repeat(90), "b".repeat(90), "c".repeat(90)];
+    const sourceDocument = { pageContent: sections.join("\n\n"), id: "long", metadata: {} };
+
+    beforeEach(async () => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+
+      engine = await ReadNext.create({
+        cacheDir,
+        summaryModel: new FakeChatModel({}),
+        vectorStore: new SaveableFakeVectorStore(new FakeEmbeddings({})),
+        logger,
+        chunking: { maxLength: 150, chunkSize: 100, chunkOverlap: 0 },
+      });
+
+      jest
+        .spyOn(engine, "summarize")
+        .mockImplementation(async ({ sourceDocument }) => `summary of ${sourceDocument.pageContent.slice(0, 3)}`);
+    });
+
+    it("summarizes short documents in one go", async () => {
+      await engine.getSummaryFor({ sourceDocument: { pageContent: "short", id: "short" } });
+
+      expect(engine.summarize).toHaveBeenCalledTimes(1);
+    });
+
+    it("summarizes each chunk of a long document, then combines the chunk summaries", async () => {
+      const summary = await engine.getSummaryFor({ sourceDocument });
+
+      expect(engine.summarize).toHaveBeenCalledTimes(4);
+      expect(engine.summarize).toHaveBeenLastCalledWith({
+        sourceDocument: expect.objectContaining({
+          id: "long",
+          pageContent: "summary of aaa\n\nsummary of bbb\n\nsummary of ccc",
+        }),
+        summarizationPrompt: `${defaultSummarizationPrompt}\n\n${defaultCombinePrompt}`,
+      });
+      expect(summary).toBe("summary of sum");
+    });
+
+    it("only re-summarizes the chunks that changed", async () => {
+      await engine.getSummaryFor({ sourceDocument });
+      jest.mocked(engine.summarize).mockClear();
+
+      const edited = { ...sourceDocument, pageContent: [sections[0], "d".repeat(90), sections[2]].join("\n\n") };
+      await engine.getSummaryFor({ sourceDocument: edited });
+
+      expect(engine.summarize).toHaveBeenCalledTimes(2);
+      expect(engine.summarize).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceDocument: expect.objectContaining({ pageContent: "d".repeat(90) }) })
+      );
+    });
+  });
+
   describe("getSummaryFor", () => {
     let engine: ReadNext;
     let summaryModel: BaseChatModel;
@@ -0,0 +1,215 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Writable } from "stream";
+import winston from "winston";
+
+import { FakeChatModel, FakeEmbeddings, FakeVectorStore } from "@langchain/core/utils/testing";
+
+import { ReadNext } from "../ReadNext";
+import { globBase, loadSourceDocuments, runCli } from "../cli";
+
+class BufferStream extends Writable {
+  data = "";
+
+  _write(chunk: any, _encoding: string, callback: () => void) {
+    this.data += chunk.toString();
+    callback();
+  }
+}
+
+describe("cli", () => {
+  let cwd: string;
+  let stdout: BufferStream;
+  let stderr: BufferStream;
+
+  const createReadNext = async (config: any = {}) =>
+    new ReadNext({
+      cacheDir: config.cacheDir,
+      vectorStore: new FakeVectorStore(new FakeEmbeddings({})),
+      summaryModel: new FakeChatModel({}),
+      logger: winston.createLogger({ silent: true }),
+      collections: Object.fromEntries(
+        Object.keys(config.collections ?? {}).map((name) => [
+          name,
+          { vectorStore: new FakeVectorStore(new FakeEmbeddings({})) },
+        ])
+      ),
+    });
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), "read-next-cli-test-"));
+    fs.mkdirSync(path.join(cwd, "content", "posts", "2024"), { recursive: true });
+    fs.writeFileSync(path.join(cwd, "content", "posts", "first.mdx"), "first post");
+    fs.writeFileSync(path.join(cwd, "content", "posts", "2024", "second.mdx"), "second post");
+
+    stdout = new BufferStream();
+    stderr = new BufferStream();
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  describe("globBase", () => {
+    it("returns the static directory part of a glob", () => {
+      expect(globBase("content/posts/**/*.mdx")).toBe("content/posts");
+      expect(globBase("content/*/index.md")).toBe("content");
+      expect(globBase("*.md")).toBe(".");
+    });
+  });
+
+  describe("loadSourceDocuments", () => {
+    it("uses the path relative to the glob base, without extension, as the id", async () => {
+      const documents = await loadSourceDocuments(["content/posts/**/*.mdx"], cwd);
+
+      expect(documents.map((doc) => doc.id)).toEqual(["2024/second", "first"]);
+      expect(documents[1].pageContent).toBe("first post");
+    });
+  });
+
+  describe("runCli", () => {
+    it("exits with 1 and prints usage for an unknown command", async () => {
+      const code = await runCli(["explode", "*.mdx"], { stdout, stderr, cwd, createReadNext });
+
+      expect(code).toBe(1);
+      expect(stderr.data).toContain("Unknown command: explode");
+      expect(stderr.data).toContain("Usage: read-next");
+    });
+
+    it("exits with 1 if suggest is called without an id", async () => {
+      const code = await runCli(["suggest", "content/**/*.mdx"], { stdout, stderr, cwd, createReadNext });
+
+      expect(code).toBe(1);
+      expect(stderr.data).toContain("requires --id");
+    });
+
+    it("exits with 1 if no files match", async () => {
+      const code = await runCli(["index", "nothing/*.md"], { stdout, stderr, cwd, createReadNext });
+
+      expect(code).toBe(1);
+      expect(stderr.data).toContain("No files matched");
+    });
+
+    it("indexes the matching content and prints the indexed ids", async () => {
+      const code = await runCli(["index", "content/posts/**/*.mdx"], { stdout, stderr, cwd, createReadNext });
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout.data).indexed.sort()).toEqual(["2024/second", "first"]);
+    });
+
+    it("reports documents that failed with --continue-on-error and exits with 1", async () => {
+      const failingReadNext = async (config: any) => {
+        const readNext = await createReadNext(config);
+        jest
+          .spyOn(readNext.summaryChain, "invoke")
+          .mockRejectedValueOnce(new Error("boom"))
+          .mockResolvedValue("summary");
+
+        return readNext;
+      };
+
+      const code = await runCli(["index", "content/posts/**/*.mdx", "--continue-on-error"], {
+        stdout,
+        stderr,
+        cwd,
+        createReadNext: failingReadNext,
+      });
+
+      expect(code).toBe(1);
+      expect(JSON.parse(stdout.data)).toMatchObject({
+        indexed: ["first"],
+        failed: [{ id: "2024/second", error: "boom" }],
+      });
+      expect(stderr.data).toContain("failed to index 2024/second");
+    });
+
+    it("prints a plan without indexing anything with --dry-run", async () => {
+      const code = await runCli(["index", "content/posts/**/*.mdx", "--dry-run"], {
+        stdout,
+        stderr,
+        cwd,
+        createReadNext,
+      });
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout.data).counts).toEqual({ unchanged: 0, changed: 0, new: 2, "missing-id": 0 });
+      expect(fs.existsSync(path.join(cwd, "read-next"))).toBe(false);
+    });
+
+    it("prunes documents that no longer match the glob with --prune", async () => {
+      await runCli(["index", "content/posts/**/*.mdx"], { stdout, stderr, cwd, createReadNext });
+      fs.rmSync(path.join(cwd, "content", "posts", "first.mdx"));
+      stdout = new BufferStream();
+
+      const code = await runCli(["index", "content/posts/**/*.mdx", "--prune"], {
+        stdout,
+        stderr,
+        cwd,
+        createReadNext,
+      });
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout.data).pruned).toEqual(["first"]);
+    });
+
+    it("indexes into a named collection with --collection", async () => {
+      const code = await runCli(["index", "content/posts/**/*.mdx", "--collection", "blog"], {
+        stdout,
+        stderr,
+        cwd,
+        createReadNext,
+      });
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout.data).indexed).toEqual(["2024/second", "first"]);
+      expect(fs.existsSync(path.join(cwd, "read-next", "collections", "blog", "summaries", "first"))).toBe(true);
+      expect(fs.existsSync(path.join(cwd, "read-next", "summaries"))).toBe(false);
+    });
+
+    it("writes suggestions for every document to a file with --out", async () => {
+      const code = await runCli(["suggest-all", "content/posts/**/*.mdx", "--limit", "1", "--out", "related.json"], {
+        stdout,
+        stderr,
+        cwd,
+        createReadNext,
+      });
+
+      expect(code).toBe(0);
+      expect(stdout.data).toBe("");
+
+      const output = JSON.parse(fs.readFileSync(path.join(cwd, "related.json"), "utf8"));
+      expect(Object.keys(output).sort()).toEqual(["2024/second", "first"]);
+      expect(output.first[0].sourceDocumentId).toBe("2024/second");
+    });
+
+    it("leaves documents whose files have been removed out of suggest-all", async () => {
+      //the vector store outlives each run, as a FAISS index saved in the cacheDir would
+      const vectorStore = new FakeVectorStore(new FakeEmbeddings({}));
+      const persistedReadNext = async (config: any) => {
+        const readNext = await createReadNext(config);
+        readNext.vectorStore = vectorStore;
+
+        return readNext;
+      };
+      fs.writeFileSync(path.join(cwd, "content", "posts", "third.mdx"), "third post");
+
+      await runCli(["index", "content/posts/**/*.mdx"], { stdout, stderr, cwd, createReadNext: persistedReadNext });
+      fs.rmSync(path.join(cwd, "content", "posts", "first.mdx"));
+      stdout = new BufferStream();
+
+      const code = await runCli(["suggest-all", "content/posts/**/*.mdx", "--limit", "1"], {
+        stdout,
+        stderr,
+        cwd,
+        createReadNext: persistedReadNext,
+      });
+
+      const output = JSON.parse(stdout.data);
+      expect(code).toBe(0);
+      expect(Object.keys(output).sort()).toEqual(["2024/second", "third"]);
+      expect(output["2024/second"].map(({ sourceDocumentId }: any) => sourceDocumentId)).toEqual(["third"]);
+      expect(output.third.map(({ sourceDocumentId }: any) => sourceDocumentId)).toEqual(["2024/second"]);
+    });
+  });
+});
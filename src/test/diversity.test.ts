@@ -0,0 +1,32 @@
+import { cosineSimilarity, maximalMarginalRelevance } from "../diversity";
+
+describe("diversity", () => {
+  describe("cosineSimilarity", () => {
+    it("is 1 for vectors pointing the same way and 0 for orthogonal ones", () => {
+      expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+  });
+
+  describe("maximalMarginalRelevance", () => {
+    const candidates = [
+      { relevance: 0.9, embedding: [1, 0] },
+      { relevance: 0.89, embedding: [1, 0.01] },
+      { relevance: 0.7, embedding: [0, 1] },
+    ];
+
+    it("keeps the relevance order when diversity is 0", () => {
+      expect(maximalMarginalRelevance(candidates, 0, 3)).toEqual([0, 1, 2]);
+    });
+
+    it("skips near-duplicates of candidates that have already been picked", () => {
+      expect(maximalMarginalRelevance(candidates, 0.5, 2)).toEqual([0, 2]);
+    });
+
+    it("returns at most k candidates", () => {
+      expect(maximalMarginalRelevance(candidates, 0.5, 1)).toEqual([0]);
+      expect(maximalMarginalRelevance([], 0.5, 3)).toEqual([]);
+    });
+  });
+});
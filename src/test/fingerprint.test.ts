@@ -0,0 +1,62 @@
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+
+import { describeModel, embeddingsFingerprint, modelFingerprint, stableStringify } from "../fingerprint";
+
+describe("fingerprint", () => {
+  describe("stableStringify", () => {
+    it("produces the same string regardless of key order", () => {
+      expect(stableStringify({ b: 1, a: { d: 2, c: 3 } })).toBe(stableStringify({ a: { c: 3, d: 2 }, b: 1 }));
+    });
+
+    it("drops functions", () => {
+      expect(stableStringify({ a: 1, fn: () => 1 })).toBe('{"a":1}');
+    });
+  });
+
+  describe("describeModel", () => {
+    it("includes the model type, name and generation settings, but not credentials or transport settings", () => {
+      const description = describeModel(
+        new ChatOpenAI({ model: "gpt-4o", temperature: 0.2, apiKey: "sk-secret", timeout: 1000, maxRetries: 3 })
+      );
+
+      expect(description).toMatchObject({ type: "openai", model_name: "gpt-4o", temperature: 0.2 });
+      expect(JSON.stringify(description)).not.toContain("sk-secret");
+      expect(description).not.toHaveProperty("timeout");
+      expect(description).not.toHaveProperty("maxRetries");
+    });
+  });
+
+  describe("modelFingerprint", () => {
+    it("changes when the model or its settings change, but not when the API key does", () => {
+      const fingerprint = modelFingerprint(new ChatOpenAI({ model: "gpt-4o", apiKey: "sk-1" }));
+
+      expect(modelFingerprint(new ChatOpenAI({ model: "gpt-4o", apiKey: "sk-2" }))).toBe(fingerprint);
+      expect(modelFingerprint(new ChatOpenAI({ model: "gpt-4o-mini", apiKey: "sk-1" }))).not.toBe(fingerprint);
+      expect(modelFingerprint(new ChatOpenAI({ model: "gpt-4o", temperature: 0, apiKey: "sk-1" }))).not.toBe(
+        fingerprint
+      );
+      expect(modelFingerprint(new FakeListChatModel({ responses: [] }))).not.toBe(fingerprint);
+    });
+  });
+
+  describe("embeddingsFingerprint", () => {
+    it("changes with the embeddings model and its dimensions, but not with the API key", () => {
+      const fingerprint = embeddingsFingerprint(
+        new OpenAIEmbeddings({ model: "text-embedding-3-small", apiKey: "sk-1" })
+      );
+
+      expect(embeddingsFingerprint(new OpenAIEmbeddings({ model: "text-embedding-3-small", apiKey: "sk-2" }))).toBe(
+        fingerprint
+      );
+      expect(embeddingsFingerprint(new OpenAIEmbeddings({ model: "text-embedding-3-large", apiKey: "sk-1" }))).not.toBe(
+        fingerprint
+      );
+      expect(
+        embeddingsFingerprint(
+          new OpenAIEmbeddings({ model: "text-embedding-3-small", dimensions: 256, apiKey: "sk-1" })
+        )
+      ).not.toBe(fingerprint);
+    });
+  });
+});
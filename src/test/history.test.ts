@@ -0,0 +1,62 @@
+import { historyWeights, reciprocalRankFusion, rrfK, weightedCentroid } from "../history";
+
+describe("history", () => {
+  describe("historyWeights", () => {
+    const now = new Date("2024-06-30T00:00:00Z");
+
+    it("halves the weight of a read for every half life since it was read", () => {
+      const weights = historyWeights(
+        [
+          { id: "a", readAt: now },
+          { id: "b", readAt: "2024-05-31T00:00:00Z" },
+          { id: "c", weight: 2, readAt: new Date("2024-05-01T00:00:00Z").getTime() },
+        ],
+        30,
+        now
+      );
+
+      expect(weights[0]).toBe(1);
+      expect(weights[1]).toBeCloseTo(0.5);
+      expect(weights[2]).toBeCloseTo(0.5);
+    });
+
+    it("doesn't decay reads without a valid date", () => {
+      expect(historyWeights([{ id: "a" }, { id: "b", weight: 3, readAt: "not a date" }], 30, now)).toEqual([1, 3]);
+    });
+  });
+
+  describe("weightedCentroid", () => {
+    it("returns the weighted average of the vectors", () => {
+      expect(
+        weightedCentroid(
+          [
+            [1, 0],
+            [0, 1],
+          ],
+          [3, 1]
+        )
+      ).toEqual([0.75, 0.25]);
+    });
+  });
+
+  describe("reciprocalRankFusion", () => {
+    it("favours ids that rank well in several lists", () => {
+      const fused = reciprocalRankFusion(
+        [
+          ["a", "b"],
+          ["b", "c"],
+        ],
+        [1, 1]
+      );
+
+      expect(fused.map(([id]) => id)).toEqual(["b", "a", "c"]);
+      expect(fused[0][1]).toBeCloseTo(1 / (rrfK + 1) + 1 / (rrfK + 2));
+    });
+
+    it("weights each list", () => {
+      const fused = reciprocalRankFusion([["a"], ["b"]], [1, 2]);
+
+      expect(fused.map(([id]) => id)).toEqual(["b", "a"]);
+    });
+  });
+});
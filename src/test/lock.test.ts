@@ -0,0 +1,145 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import winston from "winston";
+
+import { CacheLock } from "../lock";
+
+describe("CacheLock", () => {
+  const cacheDir = "/tmp/cache-lock-test";
+  const file = path.join(cacheDir, ".lock");
+  const logger = winston.createLogger({ silent: true });
+
+  beforeEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it("holds the lock file while the function runs, and removes it afterwards", async () => {
+    const lock = new CacheLock({ file, logger });
+
+    const result = await lock.withLock(async () => {
+      expect(JSON.parse(fs.readFileSync(file, "utf8"))).toMatchObject({ pid: process.pid, hostname: os.hostname() });
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it("is re-entrant, so locked functions can call each other", async () => {
+    const lock = new CacheLock({ file, logger, timeout: 100 });
+
+    await lock.withLock(async () => {
+      await lock.withLock(async () => expect(fs.existsSync(file)).toBe(true));
+      expect(fs.existsSync(file)).toBe(true);
+    });
+
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it("waits for another holder to release the lock", async () => {
+    const first = new CacheLock({ file, logger });
+    const second = new CacheLock({ file, logger, pollInterval: 10 });
+    const order: string[] = [];
+
+    await Promise.all([
+      first.withLock(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        order.push("first");
+      }),
+      second.withLock(async () => {
+        order.push("second");
+      }),
+    ]);
+
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  it("gives up after the timeout, leaving the other holder's lock alone", async () => {
+    const lock = new CacheLock({ file, logger, timeout: 30, pollInterval: 10 });
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: "" }));
+
+    await expect(lock.withLock(async () => "never")).rejects.toThrow(
+      `Timed out waiting for the lock ${file}, held by process ${process.pid}`
+    );
+    expect(fs.existsSync(file)).toBe(true);
+  });
+
+  it("removes locks left behind by processes that have exited, or that are older than staleAfter", async () => {
+    const { pid } = spawnSync(process.execPath, ["-e", ""]);
+    const lock = new CacheLock({ file, logger, timeout: 100, pollInterval: 10 });
+    fs.mkdirSync(cacheDir, { recursive: true });
+
+    fs.writeFileSync(file, JSON.stringify({ pid, hostname: os.hostname(), acquiredAt: "" }));
+    await expect(lock.withLock(async () => "acquired")).resolves.toBe("acquired");
+
+    fs.writeFileSync(file, JSON.stringify({ pid: process.pid, hostname: "another-machine", acquiredAt: "" }));
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    fs.utimesSync(file, twoHoursAgo, twoHoursAgo);
+    await expect(lock.withLock(async () => "acquired")).resolves.toBe("acquired");
+  });
+
+  it("doesn't remove a lock held by a running process on this machine, however old it is", async () => {
+    const lock = new CacheLock({ file, logger, timeout: 30, staleAfter: 10, pollInterval: 10 });
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: "" }));
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    fs.utimesSync(file, twoHoursAgo, twoHoursAgo);
+
+    await expect(lock.withLock(async () => "never")).rejects.toThrow("Timed out waiting for the lock");
+    expect(fs.existsSync(file)).toBe(true);
+  });
+
+  it("keeps the lock file's modification time fresh while it is held", async () => {
+    const lock = new CacheLock({ file, logger, staleAfter: 40 });
+
+    await lock.withLock(async () => {
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      fs.utimesSync(file, twoHoursAgo, twoHoursAgo);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(Date.now() - fs.statSync(file).mtimeMs).toBeLessThan(1000);
+    });
+  });
+
+  it("doesn't remove a lock that another waiter has replaced with its own", async () => {
+    const lock = new CacheLock({ file, logger, timeout: 30, pollInterval: 10 });
+    const { pid } = spawnSync(process.execPath, ["-e", ""]);
+    const fresh = JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: "", nonce: "fresh" });
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(file, fresh);
+
+    //as if the lock was replaced between reading it and removing it
+    (lock as any).removeStale(JSON.stringify({ pid, hostname: os.hostname(), acquiredAt: "" }), { pid });
+
+    expect(fs.readFileSync(file, "utf8")).toBe(fresh);
+    expect(fs.readdirSync(cacheDir)).toEqual([".lock"]);
+  });
+
+  it("calls onAcquire once it has the lock, before the function runs", async () => {
+    const order: string[] = [];
+    const lock = new CacheLock({ file, logger, onAcquire: async () => void order.push("onAcquire") });
+
+    await lock.withLock(async () => {
+      order.push("fn");
+      await lock.withLock(async () => void order.push("nested"));
+    });
+
+    expect(order).toEqual(["onAcquire", "fn", "nested"]);
+  });
+
+  it("releases the lock if onAcquire fails", async () => {
+    const lock = new CacheLock({
+      file,
+      logger,
+      onAcquire: async () => {
+        throw new Error("reload failed");
+      },
+    });
+
+    await expect(lock.withLock(async () => "never")).rejects.toThrow("reload failed");
+    expect(fs.existsSync(file)).toBe(false);
+  });
+});
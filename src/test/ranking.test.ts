@@ -0,0 +1,75 @@
+import { rank, recency, sameCategory, tagOverlap } from "../ranking";
+
+describe("ranking", () => {
+  const now = new Date("2024-06-01T00:00:00Z");
+
+  describe("tagOverlap", () => {
+    it("returns the Jaccard similarity of the two documents' tags", () => {
+      const signal = tagOverlap();
+
+      expect(signal({ source: { tags: ["a", "b"] }, candidate: { tags: ["b", "c"] }, similarity: 0, now })).toBeCloseTo(
+        1 / 3
+      );
+    });
+
+    it("returns 0 if neither document has tags", () => {
+      expect(tagOverlap()({ source: {}, candidate: {}, similarity: 0, now })).toBe(0);
+    });
+
+    it("reads a custom field", () => {
+      const signal = tagOverlap("topics");
+
+      expect(signal({ source: { topics: ["a"] }, candidate: { topics: ["a"] }, similarity: 0, now })).toBe(1);
+    });
+  });
+
+  describe("recency", () => {
+    it("halves the score for every half life of age", () => {
+      const signal = recency("date", 30);
+
+      expect(signal({ source: {}, candidate: { date: "2024-06-01" }, similarity: 0, now })).toBe(1);
+      expect(signal({ source: {}, candidate: { date: "2024-05-02" }, similarity: 0, now })).toBeCloseTo(0.5);
+    });
+
+    it("returns 0 for documents without a valid date", () => {
+      expect(recency()({ source: {}, candidate: {}, similarity: 0, now })).toBe(0);
+      expect(recency()({ source: {}, candidate: { date: "not a date" }, similarity: 0, now })).toBe(0);
+    });
+  });
+
+  describe("sameCategory", () => {
+    it("returns 1 only if both documents share a category", () => {
+      const signal = sameCategory();
+
+      expect(signal({ source: { category: "a" }, candidate: { category: "a" }, similarity: 0, now })).toBe(1);
+      expect(signal({ source: { category: "a" }, candidate: { category: "b" }, similarity: 0, now })).toBe(0);
+      expect(signal({ source: {}, candidate: {}, similarity: 0, now })).toBe(0);
+    });
+  });
+
+  describe("rank", () => {
+    const context = {
+      source: { tags: ["a"], category: "x" },
+      candidate: { tags: ["a"], category: "y", date: "2024-06-01" },
+      similarity: 0.5,
+      now,
+    };
+
+    it("uses vector similarity alone by default", () => {
+      expect(rank(context, {})).toEqual({ score: 0.5, signals: { similarity: 0.5 } });
+    });
+
+    it("returns the weighted average of the signals and a breakdown of each one", () => {
+      const ranking = rank(context, { similarity: 2, tags: 1, category: { weight: 1 } });
+
+      expect(ranking.signals).toEqual({ similarity: 0.5, tags: 1, category: 0 });
+      expect(ranking.score).toBeCloseTo((2 * 0.5 + 1 + 0) / 4);
+    });
+
+    it("accepts custom signals and clamps them between 0 and 1", () => {
+      const ranking = rank(context, { similarity: 0, signals: { boost: { weight: 1, signal: () => 5 } } });
+
+      expect(ranking).toEqual({ score: 1, signals: { similarity: 0.5, boost: 1 } });
+    });
+  });
+});
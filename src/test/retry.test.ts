@@ -0,0 +1,55 @@
+import { isTransientError, withRetry } from "../retry";
+
+describe("retry", () => {
+  describe("isTransientError", () => {
+    it("treats rate limits, timeouts and server errors as transient", () => {
+      expect(isTransientError({ status: 429 })).toBe(true);
+      expect(isTransientError({ status: 503 })).toBe(true);
+      expect(isTransientError({ response: { status: 502 } })).toBe(true);
+      expect(isTransientError({ code: "ECONNRESET" })).toBe(true);
+      expect(isTransientError(new Error("Request timed out."))).toBe(true);
+    });
+
+    it("does not treat client errors as transient", () => {
+      expect(isTransientError({ status: 400 })).toBe(false);
+      expect(isTransientError({ status: 401, message: "Request timed out" })).toBe(false);
+      expect(isTransientError(new Error("Invalid API key"))).toBe(false);
+      expect(isTransientError(undefined)).toBe(false);
+    });
+  });
+
+  describe("withRetry", () => {
+    it("returns the result of the first successful call", async () => {
+      const fn = jest.fn().mockRejectedValueOnce({ status: 429 }).mockResolvedValue("ok");
+
+      await expect(withRetry(fn, { minDelay: 1 })).resolves.toBe("ok");
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up after the configured number of retries", async () => {
+      const fn = jest.fn().mockRejectedValue({ status: 500 });
+
+      await expect(withRetry(fn, { retries: 2, minDelay: 1 })).rejects.toEqual({ status: 500 });
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it("backs off exponentially up to maxDelay", async () => {
+      const fn = jest.fn().mockRejectedValue({ status: 429 });
+      const delays: number[] = [];
+
+      await expect(
+        withRetry(fn, { retries: 4, minDelay: 1, factor: 3, maxDelay: 10 }, (_error, _attempt, delay) =>
+          delays.push(delay)
+        )
+      ).rejects.toEqual({ status: 429 });
+
+      expect(delays).toEqual([1, 3, 9, 10]);
+    });
+
+    it("uses a custom isRetryable function", async () => {
+      const fn = jest.fn().mockRejectedValueOnce(new Error("flaky")).mockResolvedValue("ok");
+
+      await expect(withRetry(fn, { minDelay: 1, isRetryable: (e) => e.message === "flaky" })).resolves.toBe("ok");
+    });
+  });
+});
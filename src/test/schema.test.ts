@@ -0,0 +1,83 @@
+import { SchemaValidationError } from "../errors";
+import { parseJsonResponse, schemaErrors } from "../schema";
+import type { JsonSchema } from "../schema";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string", minLength: 1 },
+    count: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+    level: { enum: ["low", "high"] },
+  },
+  required: ["title", "count"],
+  additionalProperties: false,
+};
+
+describe("schema", () => {
+  describe("schemaErrors", () => {
+    it("returns no errors for a value that matches the schema", () => {
+      expect(schemaErrors({ title: "Hello", count: 2, tags: ["a"], level: "low" }, schema)).toEqual([]);
+    });
+
+    it("describes every way a value doesn't match", () => {
+      expect(
+        schemaErrors({ title: "", count: 1.5, tags: ["a", 2, "c"], level: "medium", extra: true }, schema)
+      ).toEqual([
+        "$.title should be at least 1 characters long",
+        "$.count should be an integer, not number",
+        "$.tags should have at most 2 items",
+        "$.tags[1] should be a string, not number",
+        '$.level should be one of "low", "high"',
+        "$.extra is not allowed",
+      ]);
+    });
+
+    it("reports missing required properties and the wrong type at the top level", () => {
+      expect(schemaErrors({}, schema)).toEqual(["$.title is required", "$.count is required"]);
+      expect(schemaErrors([], schema)).toEqual(["$ should be an object, not array"]);
+    });
+  });
+
+  describe("parseJsonResponse", () => {
+    it("parses JSON, with or without a markdown code block around it", () => {
+      expect(parseJsonResponse('{"title":"Hello","count":1}', schema)).toEqual({ title: "Hello", count: 1 });
+      expect(parseJsonResponse('```json\n{"title":"Hello","count":1}\n```', schema)).toEqual({
+        title: "Hello",
+        count: 1,
+      });
+    });
+
+    it("throws a SchemaValidationError for invalid JSON, or JSON that doesn't match", () => {
+      expect(() => parseJsonResponse("Sure! Here you go", schema)).toThrow(SchemaValidationError);
+
+      try {
+        parseJsonResponse('{"title":"Hello"}', schema);
+      } catch (e) {
+        expect((e as SchemaValidationError).errors).toEqual(["$.count is required"]);
+        expect((e as SchemaValidationError).response).toBe('{"title":"Hello"}');
+      }
+
+      expect.assertions(3);
+    });
+
+    it("parses with a parser such as a zod schema, describing each issue it throws", () => {
+      const parser = {
+        parse: (value: any) => {
+          if (typeof value.title !== "string") {
+            throw Object.assign(new Error("Invalid"), {
+              issues: [{ path: ["title"], message: "Expected string, received number" }],
+            });
+          }
+
+          return value as { title: string };
+        },
+      };
+
+      expect(parseJsonResponse('{"title":"Hello"}', parser)).toEqual({ title: "Hello" });
+      expect(() => parseJsonResponse('{"title":1}', parser)).toThrow(
+        "Response does not match the schema: $.title: Expected string, received number"
+      );
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { addTokens, costOf, emptyUsage, estimateTokens, readTokenUsage } from "../usage";
+
+describe("usage", () => {
+  it("prices input and output tokens per million", () => {
+    expect(costOf({ inputTokens: 1_000_000, outputTokens: 500_000 }, { input: 2.5, output: 10 })).toBe(7.5);
+    expect(costOf({ inputTokens: 1_000_000, outputTokens: 0 }, { input: 0.1 })).toBeCloseTo(0.1);
+  });
+
+  it("treats models without a price as free", () => {
+    expect(costOf({ inputTokens: 1000, outputTokens: 1000 }, undefined)).toBe(0);
+  });
+
+  it("adds tokens and their cost to a usage record", () => {
+    const usage = emptyUsage();
+
+    addTokens(usage, "summary", { inputTokens: 1000, outputTokens: 100 }, { input: 1, output: 10 });
+    addTokens(usage, "embeddings", { inputTokens: 1000, outputTokens: 0 }, { input: 1 });
+
+    expect(usage.summary).toEqual({ inputTokens: 1000, outputTokens: 100 });
+    expect(usage.embeddings).toEqual({ inputTokens: 1000, outputTokens: 0 });
+    expect(usage.cost).toBeCloseTo(0.003);
+  });
+
+  it("estimates about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("a".repeat(10))).toBe(3);
+  });
+
+  it("reads the token usage reported in llmOutput or in the message's usage metadata", () => {
+    expect(
+      readTokenUsage({ generations: [], llmOutput: { tokenUsage: { promptTokens: 10, completionTokens: 5 } } })
+    ).toEqual({ inputTokens: 10, outputTokens: 5 });
+
+    expect(
+      readTokenUsage({
+        generations: [[{ text: "", message: { usage_metadata: { input_tokens: 7, output_tokens: 3 } } } as any]],
+      })
+    ).toEqual({ inputTokens: 7, outputTokens: 3 });
+
+    expect(readTokenUsage({ generations: [] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { Document } from "@langchain/core/documents";
+import type { VectorStore } from "@langchain/core/vectorstores";
+
+import { deleteFromVectorStore, getScoreType, getStoredVectors, getVectorStoreIds, toSimilarity } from "../vectors";
+
+/**
+ * Stands in for a FaissStore. Like faiss-node's IndexFlat, the index serializes to a header followed
+ * by all of its vectors stored contiguously as float32s.
+ */
+function fakeFaissStore(vectors: Record<string, number[]>) {
+  const ids = Object.keys(vectors);
+  const embeddings = Object.values(vectors);
+  const docs = new Map(
+    ids.map((id) => [id, new Document({ pageContent: `summary of ${id}`, metadata: { sourceDocumentId: id } })])
+  );
+
+  return {
+    _vectorstoreType: () => "faiss",
+    _index: {
+      ntotal: () => embeddings.length,
+      getDimension: () => embeddings[0]?.length ?? 0,
+      toBuffer: () =>
+        Buffer.concat([Buffer.from("IxF2 header"), Buffer.from(new Float32Array(embeddings.flat()).buffer)]),
+    },
+    getMapping: () => ({ ...ids }),
+    getDocstore: () => ({ _docs: docs }),
+    delete: jest.fn(async () => undefined),
+  } as unknown as VectorStore & { delete: jest.Mock };
+}
+
+describe("vectors", () => {
+  describe("with a FaissStore", () => {
+    const vectorStore = fakeFaissStore({ a: [0.5, 0.25, 1], b: [2, -1, 0.125] });
+
+    it("reads the vectors back from the end of the serialized index", () => {
+      expect(getStoredVectors(vectorStore)).toEqual([
+        {
+          id: "a",
+          embedding: [0.5, 0.25, 1],
+          pageContent: "summary of a",
+          metadata: { sourceDocumentId: "a" },
+        },
+        {
+          id: "b",
+          embedding: [2, -1, 0.125],
+          pageContent: "summary of b",
+          metadata: { sourceDocumentId: "b" },
+        },
+      ]);
+    });
+
+    it("reads nothing from an empty index", () => {
+      expect(getStoredVectors(fakeFaissStore({}))).toEqual([]);
+    });
+
+    it("lists the ids from the store's mapping", () => {
+      expect(getVectorStoreIds(vectorStore)).toEqual(["a", "b"]);
+    });
+
+    it("only asks the store to delete the ids it has", async () => {
+      expect(await deleteFromVectorStore(vectorStore, ["b", "missing"])).toEqual(["b"]);
+      expect(vectorStore.delete).toHaveBeenCalledWith({ ids: ["b"] });
+    });
+
+    it("measures distances", () => {
+      expect(getScoreType(vectorStore)).toBe("distance");
+      expect(toSimilarity(vectorStore, 1)).toBe(0.5);
+    });
+  });
+
+  describe("with an in-memory store", () => {
+    const memoryStore = () =>
+      ({
+        memoryVectors: [
+          { content: "summary of a", embedding: [1, 0], metadata: { sourceDocumentId: "a" } },
+          { content: "summary of b", embedding: [0, 1], metadata: { sourceDocumentId: "b" } },
+        ],
+      } as unknown as VectorStore & { memoryVectors: unknown[] });
+
+    it("reads the vectors and lists their ids", () => {
+      const vectorStore = memoryStore();
+
+      expect(getStoredVectors(vectorStore)?.map(({ id, embedding }) => [id, embedding])).toEqual([
+        ["a", [1, 0]],
+        ["b", [0, 1]],
+      ]);
+      expect(getVectorStoreIds(vectorStore)).toEqual(["a", "b"]);
+    });
+
+    it("removes the vectors for the given ids", async () => {
+      const vectorStore = memoryStore();
+
+      expect(await deleteFromVectorStore(vectorStore, ["a", "missing"])).toEqual(["a"]);
+      expect(getVectorStoreIds(vectorStore)).toEqual(["b"]);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import type { LLMResult } from "@langchain/core/outputs";
+
+/**
+ * The price of a model, in US dollars per million tokens.
+ *
+ * @property {number} input - The price of a million input (prompt) tokens.
+ * @property {number} [output=0] - The price of a million output (completion) tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output?: number;
+}
+
+/**
+ * Prices keyed by model name, e.g. `gpt-4o`.
+ */
+export type Pricing = Record<string, ModelPrice>;
+
+/**
+ * Prices for ReadNext's default models and their common alternatives. Providers change their prices
+ * from time to time, so pass your own `pricing` to ReadNext if these are out of date.
+ */
+export const defaultPricing: Pricing = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "text-embedding-ada-002": { input: 0.1 },
+  "text-embedding-3-small": { input: 0.02 },
+  "text-embedding-3-large": { input: 0.13 },
+};
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * The tokens used by the summary and embeddings models, and what they cost. Models that are not in
+ * the price table are counted as free.
+ *
+ * @property {TokenUsage} summary - Tokens sent to and generated by the summary model.
+ * @property {TokenUsage} embeddings - Tokens sent to the embeddings model.
+ * @property {number} cost - The total cost, in US dollars.
+ */
+export interface Usage {
+  summary: TokenUsage;
+  embeddings: TokenUsage;
+  cost: number;
+}
+
+export function emptyUsage(): Usage {
+  return {
+    summary: { inputTokens: 0, outputTokens: 0 },
+    embeddings: { inputTokens: 0, outputTokens: 0 },
+    cost: 0,
+  };
+}
+
+/**
+ * A rough estimate of how many tokens a text will use, for when the provider doesn't report it.
+ * English text averages about four characters per token.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Returns the cost of the given tokens, in US dollars.
+ */
+export function costOf({ inputTokens, outputTokens }: TokenUsage, price?: ModelPrice): number {
+  if (!price) {
+    return 0;
+  }
+
+  return (inputTokens * price.input + outputTokens * (price.output ?? 0)) / 1_000_000;
+}
+
+/**
+ * Adds tokens used by one of the models to a usage record, along with their cost.
+ *
+ * @param usage - The usage record to add to.
+ * @param model - Which of the models used the tokens.
+ * @param tokens - The tokens used.
+ * @param price - The price of the model, if known.
+ */
+export function addTokens(usage: Usage, model: "summary" | "embeddings", tokens: TokenUsage, price?: ModelPrice) {
+  usage[model].inputTokens += tokens.inputTokens;
+  usage[model].outputTokens += tokens.outputTokens;
+  usage.cost += costOf(tokens, price);
+}
+
+/**
+ * Adds one usage record to another.
+ */
+export function addUsage(target: Usage, usage: Usage) {
+  for (const model of ["summary", "embeddings"] as const) {
+    target[model].inputTokens += usage[model].inputTokens;
+    target[model].outputTokens += usage[model].outputTokens;
+  }
+
+  target.cost += usage.cost;
+}
+
+/**
+ * Returns the name of a LangChain model, which is what the price table is keyed by.
+ */
+export function getModelName(model: any): string | undefined {
+  return model?.model ?? model?.modelName;
+}
+
+/**
+ * Reads the token usage a provider reported for a model call, if it reported any.
+ */
+export function readTokenUsage(output: LLMResult): TokenUsage | undefined {
+  const tokenUsage = output.llmOutput?.tokenUsage;
+
+  if (tokenUsage) {
+    return { inputTokens: tokenUsage.promptTokens ?? 0, outputTokens: tokenUsage.completionTokens ?? 0 };
+  }
+
+  const usageMetadata = (output.generations?.[0]?.[0] as any)?.message?.usage_metadata;
+
+  if (usageMetadata) {
+    return { inputTokens: usageMetadata.input_tokens ?? 0, outputTokens: usageMetadata.output_tokens ?? 0 };
+  }
+}
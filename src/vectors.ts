@@ -0,0 +1,186 @@
+import type { VectorStore } from "@langchain/core/vectorstores";
+
+/**
+ * LangChain's `VectorStore` interface has no way to enumerate its contents, and not every store
+ * supports deletion by id. These helpers know how to do both for the stores ReadNext is usually
+ * used with: `FaissStore` (the default) and the in-memory stores that keep a `memoryVectors` array,
+ * such as `MemoryVectorStore`. For any other store they fall back to the public interface.
+ */
+
+interface MemoryVector {
+  content: string;
+  embedding: number[];
+  metadata: Record<string, any>;
+  id?: string;
+}
+
+function isFaissStore(vectorStore: any): boolean {
+  return vectorStore._vectorstoreType?.() === "faiss" && typeof vectorStore.getMapping === "function";
+}
+
+function getMemoryVectors(vectorStore: any): MemoryVector[] | undefined {
+  return Array.isArray(vectorStore.memoryVectors) ? vectorStore.memoryVectors : undefined;
+}
+
+/**
+ * A vector held by a vector store, along with the summary document it was created from.
+ */
+export interface StoredVector {
+  id: string;
+  embedding: number[];
+  pageContent: string;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Reads the vectors for a FaissStore. faiss-node has no way to reconstruct individual vectors, but
+ * a serialized IndexFlat ends with all of its vectors stored contiguously as float32s, so they can
+ * be read back from the tail of the buffer.
+ */
+function getFaissVectors(vectorStore: any): StoredVector[] {
+  const index = vectorStore._index;
+
+  if (!index || index.ntotal() === 0) {
+    return [];
+  }
+
+  const ntotal: number = index.ntotal();
+  const dimension: number = index.getDimension();
+  const buffer: Buffer = index.toBuffer();
+  const byteLength = ntotal * dimension * Float32Array.BYTES_PER_ELEMENT;
+  const start = buffer.byteOffset + buffer.length - byteLength;
+  const floats = new Float32Array(buffer.buffer.slice(start, start + byteLength));
+
+  const mapping: Record<number, string> = vectorStore.getMapping();
+  const docs: Map<string, { pageContent: string; metadata: Record<string, any> }> = vectorStore.getDocstore()._docs;
+
+  return Array.from({ length: ntotal }, (_, i) => {
+    const id = mapping[i];
+    const doc = docs.get(id);
+
+    return {
+      id,
+      embedding: Array.from(floats.subarray(i * dimension, (i + 1) * dimension)),
+      pageContent: doc?.pageContent ?? "",
+      metadata: doc?.metadata ?? { sourceDocumentId: id },
+    };
+  });
+}
+
+/**
+ * Returns every vector in the store along with its summary document, without re-embedding anything.
+ *
+ * @param vectorStore - The vector store to read from.
+ * @returns The stored vectors, or `undefined` if the store's vectors can't be read directly.
+ */
+export function getStoredVectors(vectorStore: VectorStore): StoredVector[] | undefined {
+  if (isFaissStore(vectorStore)) {
+    return getFaissVectors(vectorStore);
+  }
+
+  const memoryVectors = getMemoryVectors(vectorStore);
+
+  if (memoryVectors) {
+    return memoryVectors.map((vector) => ({
+      id: vector.metadata.sourceDocumentId,
+      embedding: vector.embedding,
+      pageContent: vector.content,
+      metadata: vector.metadata,
+    }));
+  }
+}
+
+/**
+ * What a vector store's raw search scores measure: a `distance`, where lower is better (e.g. the L2
+ * distances returned by FaissStore), or a `similarity`, where higher is better (e.g. the cosine
+ * similarities returned by MemoryVectorStore).
+ */
+export type ScoreType = "distance" | "similarity";
+
+/**
+ * Returns what the raw search scores of a vector store measure. FaissStore returns L2 distances,
+ * and every other store is assumed to return similarities.
+ */
+export function getScoreType(vectorStore: VectorStore): ScoreType {
+  return isFaissStore(vectorStore) ? "distance" : "similarity";
+}
+
+/**
+ * Converts a raw search score into a similarity from 0 to 1, where higher is better. Distances are
+ * mapped to `1 / (1 + distance)`, and similarities are clamped to the 0 to 1 range.
+ *
+ * @param vectorStore - The vector store that produced the score.
+ * @param score - The raw score.
+ * @param scoreType - What the score measures, if the store's own type can't be relied on.
+ * @returns The similarity, from 0 to 1.
+ */
+export function toSimilarity(
+  vectorStore: VectorStore,
+  score: number,
+  scoreType: ScoreType = getScoreType(vectorStore)
+): number {
+  if (scoreType === "distance") {
+    return 1 / (1 + Math.max(0, score));
+  }
+
+  return Math.min(1, Math.max(0, score));
+}
+
+/**
+ * Returns the ids of all source documents that currently have a vector in the store.
+ *
+ * @param vectorStore - The vector store to inspect.
+ * @returns The source document ids, or an empty array if the store can't be enumerated.
+ */
+export function getVectorStoreIds(vectorStore: VectorStore): string[] {
+  if (isFaissStore(vectorStore)) {
+    return Object.values((vectorStore as any).getMapping() as Record<number, string>);
+  }
+
+  const memoryVectors = getMemoryVectors(vectorStore);
+
+  if (memoryVectors) {
+    return memoryVectors.map((vector) => vector.metadata.sourceDocumentId).filter(Boolean);
+  }
+
+  return [];
+}
+
+/**
+ * Removes the vectors for the given source document ids from the store. Ids that are not in the
+ * store are ignored.
+ *
+ * @param vectorStore - The vector store to remove the vectors from.
+ * @param ids - The source document ids to remove.
+ * @returns The ids that were removed.
+ */
+export async function deleteFromVectorStore(vectorStore: VectorStore, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const memoryVectors = getMemoryVectors(vectorStore);
+
+  if (memoryVectors && !isFaissStore(vectorStore)) {
+    const remove = new Set(ids);
+    const removed = new Set(
+      memoryVectors.map((vector) => vector.metadata.sourceDocumentId).filter((id) => remove.has(id))
+    );
+
+    (vectorStore as any).memoryVectors = memoryVectors.filter(
+      (vector) => !remove.has(vector.metadata.sourceDocumentId)
+    );
+
+    return [...removed];
+  }
+
+  //FaissStore throws if any of the ids are missing, so only ask it to delete the ones it has
+  const existing = isFaissStore(vectorStore) ? new Set(getVectorStoreIds(vectorStore)) : undefined;
+  const toDelete = existing ? ids.filter((id) => existing.has(id)) : ids;
+
+  if (toDelete.length > 0) {
+    await vectorStore.delete({ ids: toDelete });
+  }
+
+  return toDelete;
+}